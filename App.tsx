@@ -1,241 +1,955 @@
-
-import React, { useState, useCallback, useEffect, useRef } from 'react';
-import type { ImageDimensions } from './types';
+import React, { useState, useCallback, useEffect, useId, useMemo, useRef, useSyncExternalStore } from 'react';
+import type { AutoFrameSettings, BackgroundSettings, BrushMode, BrushStroke, ColorAdjustments, CutoutSettings, EditRecipe, EditSnapshot, GuideSettings, ExportSettings, FileFacts, FramePreset, FrameSpec, ImageDimensions, ImageMetadata, ImageTransform, MetadataSettings, MultiDownloadMode, OutputSpec, OverlayItem, Point, QueueItem, ResampleSettings, SizeEstimate, SourceDetail, SubjectAnalysis, ValidationRules, ViewState, WatermarkTemplate } from './types';
 import FileDropzone from './components/FileDropzone';
 import Button from './components/Button';
 import Spinner from './components/Spinner';
-import { DownloadIcon, XCircleIcon, RefreshIcon } from './components/icons';
+import PresetPicker from './components/PresetPicker';
+import ImageQueue from './components/ImageQueue';
+import ExportPanel from './components/ExportPanel';
+import BackgroundPanel from './components/BackgroundPanel';
+import ResamplePanel from './components/ResamplePanel';
+import MetadataPanel from './components/MetadataPanel';
+import TransformControls from './components/TransformControls';
+import AutoFramePanel from './components/AutoFramePanel';
+import GuidesPanel from './components/GuidesPanel';
+import OutputsPanel from './components/OutputsPanel';
+import PlacementPanel from './components/PlacementPanel';
+import AdjustmentsPanel from './components/AdjustmentsPanel';
+import CutoutPanel from './components/CutoutPanel';
+import RecipesPanel from './components/RecipesPanel';
+import WatermarkPanel from './components/WatermarkPanel';
+import ValidationRulesPanel from './components/ValidationRulesPanel';
+import ValidationReport from './components/ValidationReport';
+import GuideOverlay from './components/GuideOverlay';
+import OverlayEditor from './components/OverlayEditor';
+import CompareOverlay from './components/CompareOverlay';
+import Loupe from './components/Loupe';
+import { ClipboardIcon, DownloadIcon, XCircleIcon, RefreshIcon } from './components/icons';
+import { BUILT_IN_PRESETS, DEFAULT_PRESET_ID, createCustomPreset, describePresetSize, getPresetName, loadCustomPresets, resolveTargetSize, saveCustomPresets } from './utils/presets';
+import { MAX_ZOOM, MIN_ZOOM, clampPan, getAnchoredPan, getInitialFit, getStraightenScale } from './utils/geometry';
+import { DEFAULT_TRANSFORM, getOrientedSize } from './utils/transform';
+import { DEFAULT_GUIDE_SETTINGS, getGuideLines, snapView } from './utils/guides';
+import { DEFAULT_AUTO_FRAME_SETTINGS, analyzeSubject, getAutoFraming, orientNormalizedRect } from './utils/autoframe';
+import { createFrameRenderer } from './utils/renderer';
+import { downloadBlob } from './utils/download';
+import { canCopyImages, copyPngToClipboard, fetchImageFile, getImageFiles } from './utils/clipboard';
+import { DEFAULT_EXPORT_SETTINGS, OUTPUT_FORMATS } from './utils/encode';
+import { getBaseName, getOutputFilename, makeUniqueFilename } from './utils/filenames';
+import { PLAIN_VIEW, planOutputs, type PlannedOutput } from './utils/outputs';
+import { createRecipe, getRecipeView, loadRecipes, saveRecipes } from './utils/recipes';
+import { createHistory, isSameEdit, pushHistory, redoHistory, undoHistory, type History } from './utils/history';
+import { evaluateFile, inspectFile, loadValidationRules, saveValidationRules } from './utils/validation';
+import { createZip, type ZipEntry } from './utils/zip';
+import { DEFAULT_BACKGROUND } from './utils/background';
+import { DEFAULT_ADJUSTMENTS, computeHistogram, createColorSample, getAutoColor } from './utils/adjust';
+import { DEFAULT_CUTOUT, toSourcePoint } from './utils/cutout';
+import { decodeOverlayImage, loadWatermark, saveWatermark } from './utils/overlay';
+import { DEFAULT_RESAMPLE_SETTINGS, isHighQualityFilter } from './utils/resample';
+import { decodeImageFile, decodeImageRegion, planSourceDetail } from './utils/decode';
+import { DEFAULT_METADATA_SETTINGS, embedMetadata, reserveMetadataBudget } from './utils/metadata';
+import { formatDimensions } from './utils/format';
+import { CATALOGS, formatNumber, getLanguage, saveLanguage, setLanguage, subscribeLanguage, t } from './utils/i18n';
 
-const TARGET_WIDTH = 1040;
-const TARGET_HEIGHT = 1040;
+const createQueueItem = (file: File): QueueItem => ({
+  id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  file,
+  thumbnailUrl: URL.createObjectURL(file),
+  zoom: 1,
+  pan: { x: 0, y: 0 },
+  transform: DEFAULT_TRANSFORM,
+  outputViews: {},
+  adjustments: DEFAULT_ADJUSTMENTS,
+  cutout: DEFAULT_CUTOUT,
+});
 
 /**
- * Calculates the average color from the border pixels of an image.
- * @param img The HTMLImageElement to process.
- * @returns An RGB color string (e.g., "rgb(123, 45, 67)").
+ * Decodes the full-resolution part of a huge image that an output shows, if the working copy is too coarse for it.
+ * @param sourceSize The full size of the unrotated image.
  */
-const getAverageBorderColor = (img: HTMLImageElement): string => {
-    const canvas = document.createElement('canvas');
-    const { width, height } = img;
-    canvas.width = width;
-    canvas.height = height;
-    const ctx = canvas.getContext('2d', { willReadFrequently: true });
-    
-    if (!ctx || width === 0 || height === 0) {
-        return 'rgb(0, 0, 0)';
-    }
-
-    ctx.drawImage(img, 0, 0, width, height);
-    
-    try {
-        const imageData = ctx.getImageData(0, 0, width, height).data;
-        let r = 0, g = 0, b = 0;
-        let count = 0;
-
-        // Top and bottom edges
-        for (let x = 0; x < width; x++) {
-            let iTop = (0 * width + x) * 4;
-            r += imageData[iTop];
-            g += imageData[iTop + 1];
-            b += imageData[iTop + 2];
-            
-            let iBottom = ((height - 1) * width + x) * 4;
-            r += imageData[iBottom];
-            g += imageData[iBottom + 1];
-            b += imageData[iBottom + 2];
-        }
-        count += width * 2;
-
-        // Left and right edges (excluding corners already counted)
-        for (let y = 1; y < height - 1; y++) {
-            let iLeft = (y * width + 0) * 4;
-            r += imageData[iLeft];
-            g += imageData[iLeft + 1];
-            b += imageData[iLeft + 2];
-
-            let iRight = (y * width + (width - 1)) * 4;
-            r += imageData[iRight];
-            g += imageData[iRight + 1];
-            b += imageData[iRight + 2];
-        }
-        count += (height - 2) * 2;
-        
-        if (count === 0) {
-             if(imageData.length >= 3) return `rgb(${imageData[0]}, ${imageData[1]}, ${imageData[2]})`;
-             return 'rgb(0, 0, 0)';
-        }
+const loadSourceDetail = async (file: File, sourceSize: ImageDimensions, output: PlannedOutput, transform: ImageTransform): Promise<SourceDetail | undefined> => {
+  const plan = planSourceDetail(sourceSize, output.target, output.fit, output.view.zoom, output.view.pan, transform);
+  return plan ? decodeImageRegion(file, plan.region, plan.size) : undefined;
+};
+
+/**
+ * Whether the item still has the auto-fit, i.e. hasn't been framed by hand or by auto framing.
+ */
+const isPlainFit = (item: QueueItem): boolean => item.zoom === 1 && item.pan.x === 0 && item.pan.y === 0;
 
-        const avgR = Math.floor(r / count);
-        const avgG = Math.floor(g / count);
-        const avgB = Math.floor(b / count);
-        
-        return `rgb(${avgR}, ${avgG}, ${avgB})`;
+// How long edits must pause before they are recorded as one undo step
+const HISTORY_SETTLE_MS = 400;
 
-    } catch (e) {
-        console.error("Error getting image data for border color:", e);
-        return 'rgb(0, 0, 0)';
-    }
+// How long the watermark template must stay unchanged before it is saved
+const WATERMARK_SAVE_DELAY_MS = 500;
+
+/**
+ * Whether a key event comes from a field with its own text undo.
+ */
+const isTextEntry = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target instanceof HTMLInputElement) {
+    return !['range', 'checkbox', 'radio', 'button', 'color', 'file'].includes(target.type);
+  }
+  return target instanceof HTMLTextAreaElement || target.isContentEditable;
 };
 
 const App: React.FC = () => {
-  const [imageFile, setImageFile] = useState<File | null>(null);
+  // Switching the language re-renders the whole app, so every component picks up the new messages
+  const language = useSyncExternalStore(subscribeLanguage, getLanguage);
+  const [queue, setQueue] = useState<QueueItem[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
   const [originalSrc, setOriginalSrc] = useState<string | null>(null);
   const [originalDimensions, setOriginalDimensions] = useState<ImageDimensions | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isProcessing, setIsProcessing] = useState<boolean>(false);
-  
-  // State for interactive canvas
-  const [zoom, setZoom] = useState<number>(1);
-  const [pan, setPan] = useState<{ x: number; y: number }>({ x: 0, y: 0 });
+  const [exportProgress, setExportProgress] = useState<{ done: number; total: number } | null>(null);
+  const [exportMessage, setExportMessage] = useState<string | null>(null);
+
+  // State for validating files before they join the queue
+  const [validationRules, setValidationRules] = useState<ValidationRules>(loadValidationRules);
+  const [pendingFiles, setPendingFiles] = useState<{ facts: FileFacts[]; replace: boolean } | null>(null);
+  const [isInspecting, setIsInspecting] = useState<boolean>(false);
+  // Why images pasted or dropped from another tab couldn't be loaded
+  const [importError, setImportError] = useState<string | null>(null);
 
-  // Refs for managing canvas and interaction state
-  const imageRef = useRef<HTMLImageElement | null>(null);
+  // State for output presets
+  const [customPresets, setCustomPresets] = useState<FramePreset[]>(loadCustomPresets);
+  const [presetId, setPresetId] = useState<string>(DEFAULT_PRESET_ID);
+
+  // Saved framing and export recipes
+  const [recipes, setRecipes] = useState<EditRecipe[]>(loadRecipes);
+
+  // Watermark template drawn over every image, and its editing state
+  const [watermark, setWatermark] = useState<WatermarkTemplate>(loadWatermark);
+  const [watermarkSaveFailed, setWatermarkSaveFailed] = useState<boolean>(false);
+  const [selectedOverlayId, setSelectedOverlayId] = useState<string | null>(null);
+  const [isPlacingOverlay, setIsPlacingOverlay] = useState<boolean>(false);
+
+  // State for extra outputs exported alongside the primary preset
+  const [extraOutputs, setExtraOutputs] = useState<OutputSpec[]>([]);
+  const [editingOutputId, setEditingOutputId] = useState<string | null>(null);
+  const [downloadMode, setDownloadMode] = useState<MultiDownloadMode>('zip');
+
+  // State for background fill
+  const [background, setBackground] = useState<BackgroundSettings>(DEFAULT_BACKGROUND);
+  const [isPickingColor, setIsPickingColor] = useState<boolean>(false);
+
+  // State for source metadata
+  const [imageMetadata, setImageMetadata] = useState<ImageMetadata | null>(null);
+  const [metadataSettings, setMetadataSettings] = useState<MetadataSettings>(DEFAULT_METADATA_SETTINGS);
+
+  // State for auto framing
+  const [autoFrameSettings, setAutoFrameSettings] = useState<AutoFrameSettings>(DEFAULT_AUTO_FRAME_SETTINGS);
+  const [subjectAnalysis, setSubjectAnalysis] = useState<SubjectAnalysis | null>(null);
+
+  // Small copy of the active image's pixels for the histogram and auto color
+  const [colorSample, setColorSample] = useState<ImageData | null>(null);
+
+  // Brush for correcting background removal on the preview, with its radius in output pixels
+  const [brushMode, setBrushMode] = useState<BrushMode | null>(null);
+  const [brushRadius, setBrushRadius] = useState<number>(20);
+
+  // State for composition guides, which are only drawn over the preview
+  const [guideSettings, setGuideSettings] = useState<GuideSettings>(DEFAULT_GUIDE_SETTINGS);
+
+  // State for resampling
+  const [resampleSettings, setResampleSettings] = useState<ResampleSettings>(DEFAULT_RESAMPLE_SETTINGS);
+
+  // State for export encoding
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(DEFAULT_EXPORT_SETTINGS);
+  const [estimate, setEstimate] = useState<SizeEstimate | null>(null);
+  const [estimateError, setEstimateError] = useState<string | null>(null);
+  const [isEstimating, setIsEstimating] = useState<boolean>(false);
+  // The encoded output behind the estimate, which the loupe magnifies
+  const [encodedPreview, setEncodedPreview] = useState<Blob | null>(null);
+
+  // State for the before/after comparison on the preview
+  const [isComparing, setIsComparing] = useState<boolean>(false);
+  const [beforeImage, setBeforeImage] = useState<ImageBitmap | null>(null);
+  // Loupe magnification in screen pixels per output pixel; 0 while the loupe is off
+  const [loupeScale, setLoupeScale] = useState<number>(0);
+
+  // Renderer for the preview canvas and exports, and the canvas it draws into
+  const [renderer] = useState(createFrameRenderer);
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
-  const initialFit = useRef<{ scale: number; x: number; y: number }>({ scale: 1, x: 0, y: 0 });
-  const isDragging = useRef<boolean>(false);
-  const dragStart = useRef<{ x: number; y: number }>({ x: 0, y: 0 });
-  const lastPan = useRef<{ x: number; y: number }>({ x: 0, y: 0 });
+
+  useEffect(() => () => renderer.dispose(), [renderer]);
+
+  useEffect(() => {
+    document.documentElement.lang = language;
+    document.title = t('app.title');
+  }, [language]);
+
+  // Saved once edits settle, since a logo makes every save large
+  useEffect(() => {
+    const timer = setTimeout(() => setWatermarkSaveFailed(!saveWatermark(watermark)), WATERMARK_SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [watermark]);
+
+  // Logo sources already handed to the renderer, by item id
+  const sentLogos = useRef<Map<string, string>>(new Map());
+
+  // The renderer draws logos from decoded bitmaps, so each new or replaced logo is decoded once
+  useEffect(() => {
+    const logos = new Map(watermark.items.flatMap(item => item.kind === 'logo' ? [[item.id, item.src] as const] : []));
+    sentLogos.current.forEach((src, id) => {
+      if (logos.get(id) === src) return;
+      sentLogos.current.delete(id);
+      renderer.setOverlayImage(id, null);
+    });
+    logos.forEach((src, id) => {
+      if (sentLogos.current.has(id)) return;
+      sentLogos.current.set(id, src);
+      decodeOverlayImage(src)
+        .then(image => {
+          if (sentLogos.current.get(id) === src) renderer.setOverlayImage(id, image);
+          else image.close();
+        })
+        .catch(e => console.error("Error decoding logo:", e));
+    });
+  }, [watermark, renderer]);
+
+  const presets = useMemo(() => [...BUILT_IN_PRESETS, ...customPresets], [customPresets]);
+  const findPreset = (id: string) => presets.find(p => p.id === id) ?? BUILT_IN_PRESETS[0];
+  const preset = findPreset(presetId);
+  const jobExtras = extraOutputs.map(output => ({ output, preset: findPreset(output.presetId) }));
+  const jobPresets = [preset, ...jobExtras.map(extra => extra.preset)];
+
+  // Re-evaluated when the rules, the preset or the language change, without re-reading the files
+  const fileReports = useMemo(
+    () => pendingFiles?.facts.map(facts => evaluateFile(facts, validationRules, preset)) ?? null,
+    [pendingFiles, validationRules, preset, language]
+  );
+
+  // The interactive canvas edits the primary framing of the active queue item,
+  // or the own framing of the extra output being edited
+  const activeItem = queue.find(item => item.id === activeId) ?? null;
+  const imageFile = activeItem?.file ?? null;
+  const editingOutput = extraOutputs.find(output => output.id === editingOutputId) ?? null;
+  const canvasPreset = editingOutput ? findPreset(editingOutput.presetId) : preset;
+  const view: ViewState = !activeItem
+    ? PLAIN_VIEW
+    : editingOutput ? activeItem.outputViews[editingOutput.id] ?? PLAIN_VIEW : activeItem;
+  const zoom = view.zoom;
+  const pan = view.pan;
+  const transform = activeItem?.transform ?? DEFAULT_TRANSFORM;
+  const adjustments = activeItem?.adjustments ?? DEFAULT_ADJUSTMENTS;
+  const cutout = activeItem?.cutout ?? DEFAULT_CUTOUT;
+
+  const updateView = useCallback((update: (view: ViewState) => ViewState) => {
+    setQueue(prev => prev.map(item => {
+      if (item.id !== activeId) return item;
+      if (editingOutputId) {
+        return { ...item, outputViews: { ...item.outputViews, [editingOutputId]: update(item.outputViews[editingOutputId] ?? PLAIN_VIEW) } };
+      }
+      const { zoom, pan } = update(item);
+      return { ...item, zoom, pan };
+    }));
+  }, [activeId, editingOutputId]);
+
+  const setZoom = useCallback<React.Dispatch<React.SetStateAction<number>>>((action) => {
+    updateView(current => ({ ...current, zoom: typeof action === 'function' ? action(current.zoom) : action }));
+  }, [updateView]);
+
+  const setPan = useCallback<React.Dispatch<React.SetStateAction<Point>>>((action) => {
+    updateView(current => ({ ...current, pan: typeof action === 'function' ? action(current.pan) : action }));
+  }, [updateView]);
+
+  const setTransform = useCallback((next: ImageTransform) => {
+    setQueue(prev => prev.map(item => item.id === activeId ? { ...item, transform: next } : item));
+  }, [activeId]);
+
+  const setAdjustments = useCallback((next: ColorAdjustments) => {
+    setQueue(prev => prev.map(item => item.id === activeId ? { ...item, adjustments: next } : item));
+  }, [activeId]);
+
+  const setCutout = useCallback((next: CutoutSettings) => {
+    setQueue(prev => prev.map(item => item.id === activeId ? { ...item, cutout: next } : item));
+  }, [activeId]);
+
+  const histogram = useMemo(
+    () => colorSample ? computeHistogram(colorSample, adjustments) : null,
+    [colorSample, adjustments]
+  );
+
+  const handleResetView = useCallback(() => updateView(() => PLAIN_VIEW), [updateView]);
+
+  // Undo history of each queue item's framing and transform. A burst of changes,
+  // such as a drag or a wheel zoom, is recorded as one step once it settles.
+  const histories = useRef<Map<string, History<EditSnapshot>>>(new Map());
+  const [, setHistoryVersion] = useState(0);
+  const editSnapshot = useMemo<EditSnapshot | null>(
+    () => activeItem && {
+      zoom: activeItem.zoom,
+      pan: activeItem.pan,
+      transform: activeItem.transform,
+      outputViews: activeItem.outputViews,
+      adjustments: activeItem.adjustments,
+      cutout: activeItem.cutout,
+    },
+    [activeItem]
+  );
+
+  useEffect(() => {
+    if (!activeItem || !editSnapshot) return;
+    const history = histories.current.get(activeItem.id);
+    if (!history) {
+      histories.current.set(activeItem.id, createHistory(editSnapshot));
+      return;
+    }
+    if (isSameEdit(history.present, editSnapshot)) return;
+    const timer = setTimeout(() => {
+      histories.current.set(activeItem.id, pushHistory(history, editSnapshot));
+      setHistoryVersion(version => version + 1);
+    }, HISTORY_SETTLE_MS);
+    return () => clearTimeout(timer);
+  }, [activeItem, editSnapshot]);
+
+  const activeHistory = activeItem ? histories.current.get(activeItem.id) ?? null : null;
+  const isSettled = !activeHistory || !editSnapshot || isSameEdit(activeHistory.present, editSnapshot);
+  const canUndo = !!activeHistory && (activeHistory.past.length > 0 || !isSettled);
+  const canRedo = !!activeHistory && activeHistory.future.length > 0 && isSettled;
+
+  const applyHistory = useCallback((id: string, history: History<EditSnapshot>) => {
+    histories.current.set(id, history);
+    setQueue(prev => prev.map(item => item.id === id ? { ...item, ...history.present } : item));
+    setHistoryVersion(version => version + 1);
+  }, []);
+
+  const handleUndo = useCallback(() => {
+    if (!activeItem || !editSnapshot) return;
+    const history = histories.current.get(activeItem.id) ?? createHistory(editSnapshot);
+    // Changes that haven't settled yet are undone as a step of their own
+    const current = isSameEdit(history.present, editSnapshot) ? history : pushHistory(history, editSnapshot);
+    const previous = undoHistory(current);
+    if (previous !== current) applyHistory(activeItem.id, previous);
+  }, [activeItem, editSnapshot, applyHistory]);
+
+  const handleRedo = useCallback(() => {
+    if (!activeItem || !editSnapshot) return;
+    const history = histories.current.get(activeItem.id);
+    // A new edit since the last undo has discarded what could be redone
+    if (!history || !isSameEdit(history.present, editSnapshot)) return;
+    const next = redoHistory(history);
+    if (next !== history) applyHistory(activeItem.id, next);
+  }, [activeItem, editSnapshot, applyHistory]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isTextEntry(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleUndo, handleRedo]);
+
+  // Output size and auto-fit for the current image, as rotated, under the selected preset
+  const orientedDimensions = useMemo(
+    () => originalDimensions ? getOrientedSize(originalDimensions, transform) : null,
+    [originalDimensions, transform]
+  );
+  // The language is a dependency because it words the target's error
+  const target = useMemo(
+    () => orientedDimensions ? resolveTargetSize(canvasPreset, orientedDimensions) : null,
+    [canvasPreset, orientedDimensions, language]
+  );
+  const initialFit = useMemo(
+    () => orientedDimensions && target ? getInitialFit(orientedDimensions, target) : { scale: 1, x: 0, y: 0 },
+    [orientedDimensions, target]
+  );
 
   const resetState = useCallback(() => {
-    setImageFile(null);
+    queue.forEach(item => URL.revokeObjectURL(item.thumbnailUrl));
+    histories.current.clear();
+    setQueue([]);
+    setActiveId(null);
     setOriginalDimensions(null);
     setError(null);
     setIsProcessing(false);
-    setZoom(1);
-    setPan({ x: 0, y: 0 });
-    imageRef.current = null;
-    if (originalSrc) {
-      URL.revokeObjectURL(originalSrc);
-    }
+    setExportMessage(null);
+    setImportError(null);
     setOriginalSrc(null);
-  }, [originalSrc]);
+  }, [queue]);
   
-  // Effect to load the image and set initial state
+  // Effect to load the active image and set initial state
   useEffect(() => {
+    setOriginalSrc(null);
+    setImageMetadata(null);
+    setSubjectAnalysis(null);
+    setColorSample(null);
     if (!imageFile) return;
 
+    let cancelled = false;
     setIsProcessing(true);
     setError(null);
 
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const imgSrc = e.target?.result as string;
-      
-      const img = new Image();
-      img.onload = () => {
-        imageRef.current = img;
-        setOriginalDimensions({ width: img.width, height: img.height });
-        
-        const scaleFactor = Math.min(TARGET_WIDTH / img.width, TARGET_HEIGHT / img.height);
-        initialFit.current = {
-            scale: scaleFactor,
-            x: (TARGET_WIDTH - img.width * scaleFactor) / 2,
-            y: (TARGET_HEIGHT - img.height * scaleFactor) / 2,
-        };
-        
-        setZoom(1);
-        setPan({ x: 0, y: 0 });
+    // An object URL refers to the file, where a data URL would copy all of it into a string
+    const imgSrc = URL.createObjectURL(imageFile);
+    const load = async () => {
+      try {
+        const { bitmap, metadata, size } = await decodeImageFile(imageFile);
+        if (cancelled) {
+          bitmap.close();
+          return;
+        }
+        // The bitmap may be a reduced working copy, so the full size comes from the decoder.
+        // Analyze before the bitmap is handed to the renderer, which may transfer it
+        setOriginalDimensions(size);
+        setSubjectAnalysis(analyzeSubject(bitmap));
+        setColorSample(createColorSample(bitmap));
+        renderer.setSource(bitmap);
+        setImageMetadata(metadata);
         setOriginalSrc(imgSrc); // Set src here to trigger redraw effect
-        setIsProcessing(false);
-      };
-      img.onerror = () => {
-        setError("ไม่สามารถโหลดไฟล์รูปภาพได้ อาจเป็นไฟล์ที่เสียหายหรือไม่ใช่รูปภาพ");
-        setIsProcessing(false);
-      };
-      img.src = imgSrc;
+      } catch (e) {
+        console.error("Error decoding image:", e);
+        if (!cancelled) setError(e instanceof Error ? e.message : String(e));
+      }
+      if (!cancelled) setIsProcessing(false);
     };
-    reader.onerror = () => {
-        setError("เกิดข้อผิดพลาดในการอ่านไฟล์");
-        setIsProcessing(false);
+    load();
+
+    return () => {
+      cancelled = true;
+      URL.revokeObjectURL(imgSrc);
     };
-    reader.readAsDataURL(imageFile);
-  }, [imageFile]);
+  }, [imageFile, renderer]);
 
 
   // Effect to redraw canvas when image, zoom, or pan changes
   useEffect(() => {
-    const img = imageRef.current;
     const canvas = canvasRef.current;
-    if (!img || !canvas || !originalSrc) return;
+    if (!canvas || !originalSrc || !originalDimensions || !orientedDimensions || !target) return;
 
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    const currentScale = initialFit.current.scale * zoom;
-    const scaledWidth = img.width * currentScale;
-    const scaledHeight = img.height * currentScale;
-
-    const maxPanX = Math.max(0, (scaledWidth - TARGET_WIDTH) / 2);
-    const maxPanY = Math.max(0, (scaledHeight - TARGET_HEIGHT) / 2);
-    
-    const clampedPan = {
-        x: Math.max(-maxPanX, Math.min(maxPanX, pan.x)),
-        y: Math.max(-maxPanY, Math.min(maxPanY, pan.y)),
-    };
-    
+    const clampedPan = clampPan(orientedDimensions, target, initialFit, zoom, pan, transform);
     if (clampedPan.x !== pan.x || clampedPan.y !== pan.y) {
         setPan(clampedPan);
         return; // Let the re-render with new pan value handle the drawing
     }
 
-    const backgroundColor = getAverageBorderColor(img);
-    ctx.fillStyle = backgroundColor;
-    ctx.fillRect(0, 0, TARGET_WIDTH, TARGET_HEIGHT);
+    renderer.attach(canvas);
+    const frame: FrameSpec = { target, sourceSize: originalDimensions, fit: initialFit, zoom, pan: clampedPan, background, resample: resampleSettings.filter, transform, adjustments, cutout, overlay: watermark };
+    if (!isHighQualityFilter(frame.resample)) {
+      renderer.render(frame);
+      return;
+    }
 
-    const drawX = initialFit.current.x + clampedPan.x - (scaledWidth - initialFit.current.scale * img.width) / 2;
-    const drawY = initialFit.current.y + clampedPan.y - (scaledHeight - initialFit.current.scale * img.height) / 2;
+    // Slow filters are previewed with the fast halving path while interacting,
+    // then redrawn with the chosen filter once the framing settles
+    renderer.render({ ...frame, resample: 'halving' });
+    const timer = setTimeout(() => renderer.render(frame), 250);
+    return () => clearTimeout(timer);
 
-    ctx.drawImage(img, drawX, drawY, scaledWidth, scaledHeight);
+  }, [zoom, pan, transform, adjustments, cutout, watermark, originalSrc, originalDimensions, orientedDimensions, target, initialFit, background, resampleSettings.filter, setPan, renderer]);
 
-  }, [zoom, pan, originalSrc]);
+  // Effect to estimate the encoded size once the preview settles, using the
+  // same full-quality render as the download. Huge images are estimated from
+  // their working copy, as decoding full-resolution detail on every change would be slow,
+  // unless the loupe is on and needs to show the download's real sharpness.
+  useEffect(() => {
+    if (!originalSrc || !imageFile || !originalDimensions || !target || target.error) {
+      setEstimate(null);
+      setEncodedPreview(null);
+      setIsEstimating(false);
+      setEstimateError(null);
+      return;
+    }
 
+    let cancelled = false;
+    setIsEstimating(true);
+    const timer = setTimeout(async () => {
+      try {
+        const plan = loupeScale > 0 ? planSourceDetail(originalDimensions, target, initialFit, zoom, pan, transform) : null;
+        const detail = plan ? await decodeImageRegion(imageFile, plan.region, plan.size) : undefined;
+        if (cancelled) {
+          detail?.image.close();
+          return;
+        }
+        // The download adds the kept EXIF fields after encoding, so the estimate leaves room for them too
+        const { settings, metadataSize } = reserveMetadataBudget(exportSettings, imageMetadata, metadataSettings);
+        const result = await renderer.encode({ target, sourceSize: originalDimensions, fit: initialFit, zoom, pan, background, resample: resampleSettings.filter, transform, adjustments, cutout, overlay: watermark }, settings, detail);
+        if (cancelled) return;
+        setEstimate({ size: result.blob.size + metadataSize, quality: result.quality, withinBudget: result.withinBudget });
+        setEncodedPreview(result.blob);
+        setEstimateError(null);
+      } catch (e) {
+        if (cancelled) return;
+        setEstimate(null);
+        setEncodedPreview(null);
+        setEstimateError(e instanceof Error ? e.message : String(e));
+      } finally {
+        if (!cancelled) setIsEstimating(false);
+      }
+    }, 300);
 
-  const handleDownload = () => {
-    const canvas = canvasRef.current;
-    const img = imageRef.current;
-    if (!canvas || !img || !imageFile) return;
-
-    // Use a temporary canvas to draw the full-quality image for download
-    const downloadCanvas = document.createElement('canvas');
-    downloadCanvas.width = TARGET_WIDTH;
-    downloadCanvas.height = TARGET_HEIGHT;
-    const ctx = downloadCanvas.getContext('2d');
-    if (!ctx) return;
-    
-    // Perform the same drawing operations as the preview
-    const backgroundColor = getAverageBorderColor(img);
-    ctx.fillStyle = backgroundColor;
-    ctx.fillRect(0, 0, TARGET_WIDTH, TARGET_HEIGHT);
-
-    const currentScale = initialFit.current.scale * zoom;
-    const scaledWidth = img.width * currentScale;
-    const scaledHeight = img.height * currentScale;
-    const drawX = initialFit.current.x + pan.x - (scaledWidth - initialFit.current.scale * img.width) / 2;
-    const drawY = initialFit.current.y + pan.y - (scaledHeight - initialFit.current.scale * img.height) / 2;
-
-    ctx.drawImage(img, drawX, drawY, scaledWidth, scaledHeight);
-
-    const link = document.createElement('a');
-    link.href = downloadCanvas.toDataURL('image/jpeg', 1.0);
-    const nameWithoutExtension = imageFile.name.split('.').slice(0, -1).join('.');
-    link.download = `${nameWithoutExtension}_${TARGET_WIDTH}x${TARGET_HEIGHT}.jpg`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [zoom, pan, transform, adjustments, cutout, watermark, originalSrc, imageFile, originalDimensions, target, initialFit, background, resampleSettings.filter, exportSettings, imageMetadata, metadataSettings, loupeScale, renderer]);
+
+  // Effect to render the same framing without the color adjustments, background
+  // removal and watermark for the before/after comparison, once the framing settles
+  useEffect(() => {
+    if (!isComparing || !originalSrc || !originalDimensions || !target || target.error) {
+      setBeforeImage(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const image = await renderer.snapshot({
+          target,
+          sourceSize: originalDimensions,
+          fit: initialFit,
+          zoom,
+          pan,
+          background,
+          resample: resampleSettings.filter,
+          transform,
+          adjustments: DEFAULT_ADJUSTMENTS,
+          cutout: DEFAULT_CUTOUT,
+          overlay: { enabled: false, items: [] },
+        });
+        if (cancelled) image.close();
+        else setBeforeImage(image);
+      } catch (e) {
+        console.error("Error rendering comparison:", e);
+      }
+    }, 150);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [isComparing, zoom, pan, transform, originalSrc, originalDimensions, target, initialFit, background, resampleSettings.filter, renderer]);
+
+  // Each comparison bitmap is released once it has been replaced
+  useEffect(() => () => beforeImage?.close(), [beforeImage]);
+
+
+  const handleDownload = async () => {
+    if (!originalSrc || !imageFile || !activeItem || !originalDimensions || !orientedDimensions) return;
+
+    const planned = planOutputs(orientedDimensions, transform, preset, activeItem, jobExtras, activeItem.outputViews);
+    const skipped = planned.flatMap((output, i) => output.target.error ? [getPresetName(jobPresets[i])] : []);
+    const valid = planned.filter(output => !output.target.error);
+    if (valid.length === 0) return;
+
+    try {
+      const { extension } = OUTPUT_FORMATS[exportSettings.format];
+      const budgeted = reserveMetadataBudget(exportSettings, imageMetadata, metadataSettings).settings;
+      const usedNames = new Set<string>();
+      const files: { name: string; blob: Blob }[] = [];
+      for (const output of valid) {
+        const detail = await loadSourceDetail(imageFile, originalDimensions, output, transform);
+        const result = await renderer.encode({
+          target: output.target,
+          sourceSize: originalDimensions,
+          fit: output.fit,
+          zoom: output.view.zoom,
+          pan: output.view.pan,
+          background,
+          resample: resampleSettings.filter,
+          transform,
+          adjustments,
+          cutout,
+          overlay: watermark,
+        }, budgeted, detail);
+        files.push({
+          name: makeUniqueFilename(getOutputFilename(imageFile.name, output.target, extension), usedNames),
+          blob: imageMetadata ? await embedMetadata(result.blob, imageMetadata, metadataSettings) : result.blob,
+        });
+      }
+
+      if (files.length > 1 && downloadMode === 'zip') {
+        const entries = await Promise.all(files.map(async ({ name, blob }) => ({ name, data: new Uint8Array(await blob.arrayBuffer()) })));
+        downloadBlob(createZip(entries), `${getBaseName(imageFile.name)}_sizes.zip`);
+      } else {
+        files.forEach(({ name, blob }) => downloadBlob(blob, name));
+      }
+      setExportMessage(skipped.length > 0 ? t('export.skippedSizes', { sizes: skipped.join(', ') }) : null);
+    } catch (e) {
+      console.error("Error encoding image:", e);
+      setExportMessage(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const handleCopyResult = async () => {
+    if (!activeItem || !originalDimensions || !orientedDimensions) return;
+    const [primary] = planOutputs(orientedDimensions, transform, preset, activeItem, [], {});
+    if (primary.target.error) return;
+    if (!canCopyImages()) {
+      setExportMessage(t('clipboard.unsupported'));
+      return;
+    }
+
+    // PNG is the one image type every clipboard accepts, and it keeps transparency
+    const sourceSize = originalDimensions;
+    const png = loadSourceDetail(activeItem.file, sourceSize, primary, transform).then(detail => renderer.encode({
+      target: primary.target,
+      sourceSize,
+      fit: primary.fit,
+      zoom: primary.view.zoom,
+      pan: primary.view.pan,
+      background,
+      resample: resampleSettings.filter,
+      transform,
+      adjustments,
+      cutout,
+      overlay: watermark,
+    }, { format: 'png', quality: 1, maxKB: null }, detail)).then(result => result.blob);
+    try {
+      await copyPngToClipboard(png);
+      setExportMessage(t('export.copied'));
+    } catch (e) {
+      console.error("Error copying image:", e);
+      setExportMessage(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const handleDownloadZip = async () => {
+    if (queue.length === 0) return;
+
+    const items = queue;
+    const entries: ZipEntry[] = [];
+    const usedNames = new Set<string>();
+    const skipped: string[] = [];
+    const { extension } = OUTPUT_FORMATS[exportSettings.format];
+    setExportMessage(null);
+    setExportProgress({ done: 0, total: items.length });
+
+    // Images are decoded one at a time so large batches don't hold every bitmap in memory
+    for (let i = 0; i < items.length; i++) {
+      const item = items[i];
+      try {
+        const { bitmap, metadata, size } = await decodeImageFile(item.file);
+        const source = getOrientedSize(size, item.transform);
+
+        let primaryView: ViewState = item;
+        const analysis = autoFrameSettings.applyOnLoad && isPlainFit(item) ? analyzeSubject(bitmap) : null;
+        if (analysis) {
+          const primaryTarget = resolveTargetSize(preset, source);
+          const subject = orientNormalizedRect(analysis[autoFrameSettings.method], item.transform);
+          primaryView = getAutoFraming(source, primaryTarget, getInitialFit(source, primaryTarget), subject, autoFrameSettings.fill, item.transform);
+        }
+
+        const planned = planOutputs(source, item.transform, preset, primaryView, jobExtras, item.outputViews);
+        planned.forEach((output, index) => {
+          if (output.target.error) skipped.push(`${item.file.name} (${getPresetName(jobPresets[index])})`);
+        });
+        const valid = planned.filter(output => !output.target.error);
+        if (valid.length === 0) bitmap.close();
+
+        for (let j = 0; j < valid.length; j++) {
+          const output = valid[j];
+          // The renderer takes ownership of the bitmap, so every output but the last gets a copy
+          const detail = await loadSourceDetail(item.file, size, output, item.transform);
+          const image = j < valid.length - 1 ? await createImageBitmap(bitmap) : bitmap;
+          const result = await renderer.encodeImage(image, {
+            target: output.target,
+            sourceSize: size,
+            fit: output.fit,
+            zoom: output.view.zoom,
+            pan: output.view.pan,
+            background,
+            resample: resampleSettings.filter,
+            transform: item.transform,
+            adjustments: item.adjustments,
+            cutout: item.cutout,
+            overlay: watermark,
+          }, reserveMetadataBudget(exportSettings, metadata, metadataSettings).settings, detail);
+          const blob = await embedMetadata(result.blob, metadata, metadataSettings);
+          entries.push({
+            name: makeUniqueFilename(getOutputFilename(item.file.name, output.target, extension), usedNames),
+            data: new Uint8Array(await blob.arrayBuffer()),
+          });
+        }
+      } catch (e) {
+        console.error(`Error exporting ${item.file.name}:`, e);
+        skipped.push(item.file.name);
+      }
+      setExportProgress({ done: i + 1, total: items.length });
+    }
+
+    if (entries.length > 0) {
+      downloadBlob(createZip(entries), 'resized_images.zip');
+    }
+    if (skipped.length > 0) {
+      setExportMessage(t('export.skippedImages', { count: skipped.length, names: skipped.join(', ') }));
+    }
+    setExportProgress(null);
+  };
+
+  // Files are inspected one at a time, then held for the report until confirmed
+  const inspectFiles = async (files: File[], replace: boolean) => {
+    setIsInspecting(true);
+    const facts: FileFacts[] = [];
+    for (const file of files) {
+      facts.push(await inspectFile(file));
+    }
+    setPendingFiles({ facts, replace });
+    setIsInspecting(false);
+  };
+
+  const handleFilesSelect = (files: File[]) => inspectFiles(files, true);
+
+  const handleAddFiles = (files: File[]) => inspectFiles(files, false);
+
+  const handleUrlsSelect = async (urls: string[]) => {
+    setImportError(null);
+    setIsInspecting(true);
+    const files: File[] = [];
+    const errors: string[] = [];
+    for (const url of urls) {
+      try {
+        files.push(await fetchImageFile(url));
+      } catch (e) {
+        errors.push(e instanceof Error ? e.message : String(e));
+      }
+    }
+    setImportError(errors.length > 0 ? errors.join(' ') : null);
+    if (files.length > 0) {
+      await inspectFiles(files, true);
+    } else {
+      setIsInspecting(false);
+    }
+  };
+
+  // Pasted images start a new queue, or join the current one
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      if (!e.clipboardData || isTextEntry(e.target)) return;
+      const files = getImageFiles(e.clipboardData);
+      if (files.length === 0) return;
+      e.preventDefault();
+      setImportError(null);
+      inspectFiles(files, queue.length === 0);
+    };
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  }, [queue.length]);
+
+  const handleConfirmFiles = () => {
+    if (!pendingFiles || !fileReports) return;
+    const files = fileReports.filter(report => report.status !== 'fail').map(report => report.facts.file);
+    setPendingFiles(null);
+    if (files.length === 0) return;
+
+    const items = files.map(createQueueItem);
+    if (pendingFiles.replace) {
+      resetState();
+      setQueue(items);
+      setActiveId(items[0].id);
+    } else {
+      setQueue(prev => [...prev, ...items]);
+      if (!activeId) setActiveId(items[0].id);
+    }
+  };
+
+  const handleLanguageChange = (next: string) => {
+    setLanguage(next);
+    saveLanguage(next);
+  };
+
+  const handleValidationRulesChange = (rules: ValidationRules) => {
+    setValidationRules(rules);
+    saveValidationRules(rules);
+  };
+
+  const handleRemoveItem = (id: string) => {
+    const index = queue.findIndex(item => item.id === id);
+    if (index < 0) return;
+    const remaining = queue.filter(item => item.id !== id);
+    if (remaining.length === 0) {
+      resetState();
+      return;
+    }
+    URL.revokeObjectURL(queue[index].thumbnailUrl);
+    histories.current.delete(id);
+    setQueue(remaining);
+    if (id === activeId) {
+      setError(null);
+      setActiveId(remaining[Math.min(index, remaining.length - 1)].id);
+    }
+  };
+
+  const handleSelectItem = (id: string) => {
+    setError(null);
+    setActiveId(id);
+  };
+
+  const handleExportSettingsChange = (settings: ExportSettings) => {
+    setExportSettings(settings);
+    // JPEG has no alpha channel, so fall back to the default fill
+    if (!OUTPUT_FORMATS[settings.format].alpha && background.mode === 'transparent') {
+      setBackground({ ...background, mode: DEFAULT_BACKGROUND.mode });
+    }
+  };
+
+  const handlePickPoint = async (point: Point) => {
+    setIsPickingColor(false);
+    try {
+      const color = await renderer.pickColor(point.x, point.y);
+      setBackground(prev => ({ ...prev, color }));
+    } catch (e) {
+      console.error("Error picking color:", e);
+    }
+  };
+
+  const handleSnapView = useCallback((next: { zoom: number; pan: Point }, threshold: number, withZoom: boolean) => {
+    if (!orientedDimensions || !target) return next;
+    return snapView(orientedDimensions, initialFit, transform, getGuideLines(target, guideSettings), next, threshold, withZoom);
+  }, [orientedDimensions, target, initialFit, transform, guideSettings]);
+
+  const handleBrushStroke = (points: Point[]) => {
+    if (!brushMode || !orientedDimensions || !originalDimensions) return;
+    const scale = initialFit.scale * zoom * getStraightenScale(orientedDimensions, transform);
+    const stroke: BrushStroke = {
+      mode: brushMode,
+      radius: brushRadius / scale / originalDimensions.width,
+      points: points.map(point => toSourcePoint(point, orientedDimensions, initialFit, zoom, pan, transform)),
+    };
+    setCutout({ ...cutout, enabled: true, strokes: [...cutout.strokes, stroke] });
+  };
+
+  const handleOverlayItemChange = (changed: OverlayItem) => {
+    setWatermark(prev => ({ ...prev, items: prev.items.map(item => item.id === changed.id ? changed : item) }));
+  };
+
+  const handleAutoColor = () => {
+    if (!colorSample) return;
+    setAdjustments({ ...adjustments, ...getAutoColor(computeHistogram(colorSample, DEFAULT_ADJUSTMENTS)) });
   };
 
-  const handleFileSelect = (file: File) => {
-    resetState();
-    setImageFile(file);
+  const handleAutoFrame = () => {
+    if (!subjectAnalysis || !orientedDimensions || !target) return;
+    const subject = orientNormalizedRect(subjectAnalysis[autoFrameSettings.method], transform);
+    const framing = getAutoFraming(orientedDimensions, target, initialFit, subject, autoFrameSettings.fill, transform);
+    setZoom(framing.zoom);
+    setPan(framing.pan);
   };
 
+  // Auto frames a newly opened image if it still has the plain fit, reading this
+  // render's framing state. Kept in a ref so the effect below can call the latest one.
+  const autoFrameOnLoad = useRef<() => void>(() => {});
+  useEffect(() => {
+    autoFrameOnLoad.current = () => {
+      if (autoFrameSettings.applyOnLoad && !editingOutput && activeItem && isPlainFit(activeItem)) handleAutoFrame();
+    };
+  });
+
+  // Only the analysis and the setting trigger auto framing, so later adjustments aren't overridden
+  useEffect(() => {
+    autoFrameOnLoad.current();
+  }, [subjectAnalysis, autoFrameSettings.applyOnLoad]);
+
+  const handlePresetSelect = (id: string) => {
+    setPresetId(id);
+    setQueue(prev => prev.map(item => ({ ...item, zoom: 1, pan: { x: 0, y: 0 } })));
+  };
+
+  const handleAddCustomPreset = (newPreset: FramePreset) => {
+    const updated = [...customPresets, newPreset];
+    setCustomPresets(updated);
+    saveCustomPresets(updated);
+    handlePresetSelect(newPreset.id);
+  };
+
+  const handleDeleteCustomPreset = (id: string) => {
+    const updated = customPresets.filter(p => p.id !== id);
+    setCustomPresets(updated);
+    saveCustomPresets(updated);
+    if (id === presetId) handlePresetSelect(DEFAULT_PRESET_ID);
+  };
+
+  const handleRecipesChange = (updated: EditRecipe[]) => {
+    setRecipes(updated);
+    saveRecipes(updated);
+  };
+
+  // Recipes always capture the primary framing, whichever output the canvas is editing
+  const handleCreateRecipe = (name: string): EditRecipe => {
+    const primaryView: ViewState = activeItem ?? PLAIN_VIEW;
+    const source = orientedDimensions ?? { width: 1, height: 1 };
+    const primaryFit = getInitialFit(source, resolveTargetSize(preset, source));
+    return createRecipe(name, preset, primaryView, source, primaryFit, transform, background, exportSettings);
+  };
+
+  /**
+   * Applies a recipe's settings, and its framing to the active image.
+   * @returns A warning when part of the recipe couldn't be applied.
+   */
+  const handleApplyRecipe = (recipe: EditRecipe): string | null => {
+    const wanted = recipe.preset;
+    let recipePreset = presets.find(p => p.kind === wanted.kind && p.width === wanted.width && (
+      p.kind === 'frame' && wanted.kind === 'frame'
+        ? p.height === wanted.height
+        : p.kind === 'fixed-width' && wanted.kind === 'fixed-width' && p.minHeight === wanted.minHeight && p.maxHeight === wanted.maxHeight
+    ));
+    let warning: string | null = null;
+    if (!recipePreset && wanted.kind === 'frame') {
+      const custom = createCustomPreset(wanted.name, wanted.width, wanted.height);
+      if (custom) {
+        const updated = [...customPresets, custom];
+        setCustomPresets(updated);
+        saveCustomPresets(updated);
+        recipePreset = custom;
+      }
+    }
+    if (!recipePreset) {
+      recipePreset = preset;
+      warning = t('recipes.sizeNotFound', { size: describePresetSize(wanted) });
+    }
+    if (recipePreset.id !== presetId) handlePresetSelect(recipePreset.id);
+
+    setExportSettings(recipe.export);
+    setBackground(!OUTPUT_FORMATS[recipe.export.format].alpha && recipe.background.mode === 'transparent'
+      ? { ...recipe.background, mode: DEFAULT_BACKGROUND.mode }
+      : recipe.background);
+
+    if (activeItem && orientedDimensions) {
+      const fit = getInitialFit(orientedDimensions, resolveTargetSize(recipePreset, orientedDimensions));
+      const { zoom, pan } = getRecipeView(recipe, orientedDimensions, fit, activeItem.transform);
+      setQueue(prev => prev.map(item => item.id === activeItem.id ? { ...item, zoom, pan } : item));
+    }
+    return warning;
+  };
+
+  const upscale = orientedDimensions ? initialFit.scale * zoom * getStraightenScale(orientedDimensions, transform) : 1;
+
   const renderContent = () => {
+    if (isInspecting) {
+      return (
+        <div className="flex flex-col items-center justify-center gap-4 text-center h-96">
+          <Spinner />
+          <p className="text-lg font-medium text-slate-300">{t('app.inspecting')}</p>
+        </div>
+      );
+    }
+
+    if (fileReports) {
+      return (
+        <div className="w-full flex flex-col gap-4">
+          <ValidationRulesPanel rules={validationRules} onChange={handleValidationRulesChange} preset={preset} />
+          <ValidationReport reports={fileReports} onConfirm={handleConfirmFiles} onCancel={() => setPendingFiles(null)} />
+        </div>
+      );
+    }
+
     if (isProcessing) {
       return (
         <div className="flex flex-col items-center justify-center gap-4 text-center h-96">
           <Spinner />
-          <p className="text-lg font-medium text-slate-300">กำลังประมวลผลรูปภาพ...</p>
-          <p className="text-sm text-slate-400">โปรดรอสักครู่</p>
+          <p className="text-lg font-medium text-slate-300">{t('app.processing')}</p>
+          <p className="text-sm text-slate-400">{t('app.wait')}</p>
         </div>
       );
     }
@@ -244,57 +958,233 @@ const App: React.FC = () => {
       return (
         <div className="flex flex-col items-center justify-center gap-4 text-center bg-red-900/20 border-2 border-red-500/50 rounded-xl p-8">
           <XCircleIcon className="w-16 h-16 text-red-500" />
-          <h3 className="text-xl font-bold text-red-400">เกิดข้อผิดพลาด</h3>
+          <h3 className="text-xl font-bold text-red-400">{t('app.error')}</h3>
           <p className="max-w-md text-slate-300">{error}</p>
-          <Button onClick={resetState} variant="secondary" Icon={RefreshIcon}>
-            ลองอีกครั้ง
-          </Button>
+          <div className="flex flex-col sm:flex-row items-center justify-center gap-4">
+            {activeItem && queue.length > 1 && (
+              <Button onClick={() => handleRemoveItem(activeItem.id)} variant="secondary" Icon={XCircleIcon}>
+                {t('app.removeFromQueue')}
+              </Button>
+            )}
+            <Button onClick={resetState} variant="secondary" Icon={RefreshIcon}>
+              {t('app.retry')}
+            </Button>
+          </div>
         </div>
       );
     }
 
-    if (originalSrc) {
+    if (originalSrc && target) {
       return (
         <div className="w-full flex flex-col gap-8">
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 items-start">
-            <ImagePreview title="ต้นฉบับ" src={originalSrc} dimensions={originalDimensions} />
+            <ImagePreview title={t('app.original')} src={originalSrc} dimensions={originalDimensions} />
             <InteractiveCanvas
               zoom={zoom}
               setZoom={setZoom}
               pan={pan}
               setPan={setPan}
               canvasRef={canvasRef}
+              target={target}
+              transparent={background.mode === 'transparent'}
+              guides={guideSettings}
+              snapView={guideSettings.snap ? handleSnapView : undefined}
+              transform={transform}
+              setTransform={setTransform}
+              upscale={upscale > resampleSettings.maxUpscale ? upscale : null}
+              onPickPoint={isPickingColor ? handlePickPoint : undefined}
+              brush={brushMode && cutout.enabled ? { mode: brushMode, radius: brushRadius, onStroke: handleBrushStroke } : undefined}
+              isComparing={isComparing}
+              onComparingChange={setIsComparing}
+              beforeImage={beforeImage}
+              loupeScale={loupeScale}
+              onLoupeScaleChange={setLoupeScale}
+              encoded={{
+                image: encodedPreview,
+                label: OUTPUT_FORMATS[exportSettings.format].lossy && estimate
+                  ? `${OUTPUT_FORMATS[exportSettings.format].label} ${t('export.quality', { quality: Math.round(estimate.quality * 100) })}`
+                  : OUTPUT_FORMATS[exportSettings.format].label,
+                isStale: isEstimating,
+              }}
+              overlay={isPlacingOverlay && watermark.enabled ? {
+                template: watermark,
+                selectedId: selectedOverlayId,
+                onSelect: setSelectedOverlayId,
+                onChange: handleOverlayItemChange,
+              } : undefined}
+              onResetView={handleResetView}
+              onUndo={handleUndo}
+              onRedo={handleRedo}
+              canUndo={canUndo}
+              canRedo={canRedo}
             />
           </div>
+          {target.error && (
+            <p className="text-center text-red-400">{target.error}</p>
+          )}
+          {orientedDimensions && !target.error && (
+            <PlacementPanel
+              source={orientedDimensions}
+              target={target}
+              fit={initialFit}
+              transform={transform}
+              view={view}
+              onChange={(next) => updateView(() => next)}
+            />
+          )}
+          <RecipesPanel
+            recipes={recipes}
+            onRecipesChange={handleRecipesChange}
+            onCreate={handleCreateRecipe}
+            onApply={handleApplyRecipe}
+          />
+          <OutputsPanel
+            outputs={extraOutputs}
+            presets={presets}
+            onChange={setExtraOutputs}
+            editingId={editingOutput?.id ?? null}
+            onEdit={setEditingOutputId}
+            downloadMode={downloadMode}
+            onDownloadModeChange={setDownloadMode}
+          />
+          <GuidesPanel settings={guideSettings} onChange={setGuideSettings} />
+          <AutoFramePanel
+            settings={autoFrameSettings}
+            onChange={setAutoFrameSettings}
+            onAutoFrame={handleAutoFrame}
+            available={!!subjectAnalysis}
+          />
+          <AdjustmentsPanel
+            adjustments={adjustments}
+            onChange={setAdjustments}
+            onAuto={handleAutoColor}
+            histogram={histogram}
+          />
+          <ResamplePanel settings={resampleSettings} onChange={setResampleSettings} />
+          <CutoutPanel
+            settings={cutout}
+            onChange={setCutout}
+            brushMode={brushMode}
+            onBrushModeChange={setBrushMode}
+            brushRadius={brushRadius}
+            onBrushRadiusChange={setBrushRadius}
+            allowTransparent={OUTPUT_FORMATS[exportSettings.format].alpha}
+            isTransparent={background.mode === 'transparent'}
+            onMakeTransparent={() => setBackground({ ...background, mode: 'transparent' })}
+          />
+          <BackgroundPanel
+            settings={background}
+            onChange={setBackground}
+            allowTransparent={OUTPUT_FORMATS[exportSettings.format].alpha}
+            isPickingColor={isPickingColor}
+            onTogglePickingColor={() => setIsPickingColor(!isPickingColor)}
+          />
+          <WatermarkPanel
+            template={watermark}
+            onChange={setWatermark}
+            selectedId={selectedOverlayId}
+            onSelect={setSelectedOverlayId}
+            isPlacing={isPlacingOverlay}
+            onPlacingChange={setIsPlacingOverlay}
+            saveFailed={watermarkSaveFailed}
+          />
+          <ExportPanel
+            settings={exportSettings}
+            onChange={handleExportSettingsChange}
+            estimate={estimate}
+            estimateError={estimateError}
+            isEstimating={isEstimating}
+          />
+          {imageMetadata && (
+            <MetadataPanel
+              metadata={imageMetadata}
+              settings={metadataSettings}
+              onChange={setMetadataSettings}
+              isJpeg={exportSettings.format === 'jpeg'}
+            />
+          )}
+          {exportProgress && (
+            <p className="text-center text-slate-300">
+              {t('export.zipProgress', { done: exportProgress.done, total: exportProgress.total })}
+            </p>
+          )}
+          {exportMessage && (
+            <p className="text-center text-amber-400">{exportMessage}</p>
+          )}
           <div className="flex flex-col sm:flex-row items-center justify-center gap-4">
-            <Button onClick={handleDownload} Icon={DownloadIcon}>
-              ดาวน์โหลดรูปภาพ
+            <Button onClick={handleDownload} Icon={DownloadIcon} disabled={!!target.error || !!exportProgress}>
+              {t('export.download')}
             </Button>
-            <Button onClick={resetState} variant="secondary" Icon={RefreshIcon}>
-              ปรับขนาดรูปภาพอื่น
+            <Button onClick={handleCopyResult} variant="secondary" Icon={ClipboardIcon} disabled={!!target.error || !!exportProgress}>
+              {t('export.copy')}
+            </Button>
+            {queue.length > 1 && (
+              <Button onClick={handleDownloadZip} Icon={DownloadIcon} disabled={!!exportProgress}>
+                {t('export.downloadAll', { count: queue.length })}
+              </Button>
+            )}
+            <Button onClick={resetState} variant="secondary" Icon={RefreshIcon} disabled={!!exportProgress}>
+              {t('app.startOver')}
             </Button>
           </div>
         </div>
       );
     }
 
-    return <FileDropzone onFileSelect={handleFileSelect} disabled={isProcessing} />;
+    return (
+      <div className="w-full flex flex-col gap-4">
+        <FileDropzone onFilesSelect={handleFilesSelect} onUrlsSelect={handleUrlsSelect} disabled={isProcessing} />
+        <ValidationRulesPanel rules={validationRules} onChange={handleValidationRulesChange} preset={preset} />
+      </div>
+    );
   };
 
   return (
     <div className="min-h-screen flex flex-col items-center justify-center p-4 sm:p-6">
       <main className="w-full max-w-7xl mx-auto flex flex-col items-center gap-6">
+        <div className="w-full flex justify-end">
+          <select
+            value={language}
+            onChange={(e) => handleLanguageChange(e.target.value)}
+            className="bg-slate-900 border border-slate-600 rounded-md px-2 py-1 text-sm text-slate-200 focus:outline-none focus:ring-2 focus:ring-sky-500"
+            aria-label={t('app.language')}
+          >
+            {CATALOGS.map(catalog => (
+              <option key={catalog.language} value={catalog.language}>{catalog.name}</option>
+            ))}
+          </select>
+        </div>
         <header className="text-center">
-            <h1 className="text-4xl sm:text-5xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-sky-400 to-cyan-300">เครื่องมือปรับขนาดรูปภาพ</h1>
+            <h1 className="text-4xl sm:text-5xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-sky-400 to-cyan-300">{t('app.title')}</h1>
             <p className="mt-3 text-lg text-slate-400 max-w-3xl">
-              ปรับขนาดรูปภาพให้พอดีกับกรอบขนาด <strong className="text-white">{TARGET_WIDTH} x {TARGET_HEIGHT} พิกเซล</strong> คุณสามารถลากเพื่อย้ายและซูมภาพก่อนบันทึกได้
+              {t('app.intro')} <strong className="text-white">{t('app.introSize', { size: describePresetSize(preset) })}</strong> {t('app.introDrag')}
             </p>
         </header>
-        <div className="w-full bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-2xl p-6 sm:p-8 mt-4 shadow-2xl shadow-slate-900/50">
+        <div className="w-full bg-slate-800/50 backdrop-blur-sm border border-slate-700 rounded-2xl p-6 sm:p-8 mt-4 shadow-2xl shadow-slate-900/50 flex flex-col gap-6">
+          <PresetPicker
+            presets={presets}
+            selectedId={preset.id}
+            onSelect={handlePresetSelect}
+            onAddCustom={handleAddCustomPreset}
+            onDeleteCustom={handleDeleteCustomPreset}
+          />
+          {queue.length > 0 && (
+            <ImageQueue
+              items={queue}
+              activeId={activeId}
+              onSelect={handleSelectItem}
+              onRemove={handleRemoveItem}
+              onAddFiles={handleAddFiles}
+              disabled={!!exportProgress}
+            />
+          )}
+          {importError && (
+            <p className="text-center text-red-400" role="alert">{importError}</p>
+          )}
           {renderContent()}
         </div>
         <footer className="text-center text-slate-500 text-sm mt-4">
-            <p>สร้างโดย BigBundit</p>
+            <p>{t('app.credit', { author: 'BigBundit' })}</p>
         </footer>
       </main>
     </div>
@@ -310,11 +1200,11 @@ const ImagePreview: React.FC<ImagePreviewProps> = ({ title, src, dimensions }) =
     <div className="flex flex-col gap-3">
         <h3 className="text-lg font-semibold text-slate-300">{title}</h3>
         <div className="bg-slate-900 p-2 rounded-lg border border-slate-700">
-            <img src={src} alt={title} className="w-full h-auto rounded-md object-contain" />
+            <img src={src} alt={title} className="w-full h-auto rounded-md object-contain" style={{ imageOrientation: 'from-image' }} />
         </div>
         {dimensions && (
             <div className="text-center text-sm text-slate-400 bg-slate-800 rounded-full px-3 py-1 self-center">
-                {dimensions.width} x {dimensions.height} px
+                {formatDimensions(dimensions)}
             </div>
         )}
     </div>
@@ -325,76 +1215,383 @@ interface InteractiveCanvasProps {
   setZoom: React.Dispatch<React.SetStateAction<number>>;
   pan: { x: number; y: number };
   setPan: React.Dispatch<React.SetStateAction<{ x: number, y: number }>>;
-  canvasRef: React.RefObject<HTMLCanvasElement>;
+  canvasRef: React.RefObject<HTMLCanvasElement | null>;
+  target: ImageDimensions;
+  transform: ImageTransform;
+  setTransform: (transform: ImageTransform) => void;
+  transparent: boolean;
+  guides: GuideSettings;
+  /** Adjusts a proposed view to nearby guides. `threshold` is in output pixels. */
+  snapView?: (view: { zoom: number; pan: Point }, threshold: number, withZoom: boolean) => { zoom: number; pan: Point };
+  /** Output pixels per source pixel, when above the warning threshold. */
+  upscale: number | null;
+  /** When set, clicking the canvas reports the output pixel instead of starting a drag. */
+  onPickPoint?: (point: Point) => void;
+  /** When set, dragging paints a stroke instead of panning. `radius` is in output pixels. */
+  brush?: { mode: BrushMode; radius: number; onStroke: (points: Point[]) => void };
+  /** When set, the watermark items can be dragged and resized on the preview. */
+  overlay?: Omit<React.ComponentProps<typeof OverlayEditor>, 'target'>;
+  /** Whether the left part of the preview shows the framing without edits. */
+  isComparing: boolean;
+  onComparingChange: (comparing: boolean) => void;
+  /** The framing without edits, or null while it is being rendered. */
+  beforeImage: ImageBitmap | null;
+  /** Loupe magnification in screen pixels per output pixel; 0 while the loupe is off. */
+  loupeScale: number;
+  onLoupeScaleChange: (scale: number) => void;
+  /** The encoded output shown in the loupe, with a description of its encoding. */
+  encoded: { image: Blob | null; label: string; isStale: boolean };
+  /** Returns to the auto-fit, without touching the transform. */
+  onResetView: () => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
 }
-const InteractiveCanvas: React.FC<InteractiveCanvasProps> = ({ zoom, setZoom, pan, setPan, canvasRef }) => {
-  const isDragging = useRef<boolean>(false);
-  const dragStart = useRef<{ x: number; y: number }>({ x: 0, y: 0 });
-  const lastPan = useRef<{ x: number; y: number }>({ x: 0, y: 0 });
-
-  const handleInteractionStart = (clientX: number, clientY: number) => {
-    isDragging.current = true;
-    dragStart.current = { x: clientX, y: clientY };
-    lastPan.current = pan;
+
+// Distance in screen pixels within which the image snaps to a guide
+const SNAP_DISTANCE = 8;
+
+// Arrow key nudges in output pixels, and with Shift held
+const NUDGE_STEP = 1;
+const LARGE_NUDGE_STEP = 10;
+
+// Zoom change per +/- key press
+const KEY_ZOOM_FACTOR = 1.1;
+
+// Loupe magnifications, in screen pixels per output pixel; 0 turns the loupe off
+const LOUPE_SCALES = [0, 1, 2];
+
+const historyButtonClasses = 'px-3 py-1 rounded-md bg-slate-700 text-slate-200 hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed';
+
+// Checkerboard shown behind transparent output
+const CHECKERBOARD_STYLE: React.CSSProperties = {
+  background: 'repeating-conic-gradient(#334155 0% 25%, #1e293b 0% 50%) 50% / 20px 20px',
+};
+
+const isSameView = (a: { zoom: number; pan: Point }, b: { zoom: number; pan: Point }): boolean =>
+  a.zoom === b.zoom && a.pan.x === b.pan.x && a.pan.y === b.pan.y;
+
+const InteractiveCanvas: React.FC<InteractiveCanvasProps> = ({ zoom, setZoom, pan, setPan, canvasRef, target, transform, setTransform, transparent, guides, snapView, upscale, onPickPoint, brush, overlay, isComparing, onComparingChange, beforeImage, loupeScale, onLoupeScaleChange, encoded, onResetView, onUndo, onRedo, canUndo, canRedo }) => {
+  const hintId = useId();
+  // Output points of the brush stroke being painted
+  const [stroke, setStroke] = useState<Point[] | null>(null);
+  // Share of the frame showing the framing without edits while comparing
+  const [split, setSplit] = useState<number>(0.5);
+  // Output pixel under the pointer, tracked while the loupe is on
+  const [hoverPoint, setHoverPoint] = useState<Point | null>(null);
+  // Pointers currently down on the canvas, in output pixels
+  const pointers = useRef<Map<number, Point>>(new Map());
+  // The view and pointer positions when the current drag or pinch started
+  const gestureStart = useRef<{ zoom: number; pan: Point; anchor: Point; distance: number } | null>(null);
+  // Latest view, updated synchronously so bursts of events don't build on stale props
+  const view = useRef<{ zoom: number; pan: Point }>({ zoom, pan });
+  // Pan and zoom updates are batched to one per animation frame while dragging
+  const pendingView = useRef<{ zoom: number; pan: Point } | null>(null);
+  const viewFrame = useRef<number | null>(null);
+  // The last wheel zoom before and after snapping
+  const wheelView = useRef<{ unsnapped: { zoom: number; pan: Point }; snapped: { zoom: number; pan: Point } } | null>(null);
+
+  useEffect(() => {
+    view.current = { zoom, pan };
+  }, [zoom, pan]);
+
+  useEffect(() => () => {
+    if (viewFrame.current !== null) cancelAnimationFrame(viewFrame.current);
+  }, []);
+
+  const toOutputPoint = useCallback((clientX: number, clientY: number): Point | null => {
+    const canvas = canvasRef.current;
+    if (!canvas) return null;
+    const bounds = canvas.getBoundingClientRect();
+    return {
+      x: (clientX - bounds.left) * target.width / bounds.width,
+      y: (clientY - bounds.top) * target.height / bounds.height,
+    };
+  }, [canvasRef, target]);
+
+  /**
+   * Snaps a proposed view to the guides and applies it on the next frame.
+   * @param zoomFrom For zoom gestures, the view and points the proposed zoom is anchored
+   * to, so a snapped zoom keeps the same point under the pointer. Drags only snap the pan.
+   * @returns The view that will be applied.
+   */
+  const scheduleView = useCallback((
+    proposed: { zoom: number; pan: Point },
+    zoomFrom?: { zoom: number; pan: Point; anchor: Point; movedAnchor?: Point }
+  ): { zoom: number; pan: Point } => {
+    const canvas = canvasRef.current;
+    let next = proposed;
+    if (snapView && canvas) {
+      const threshold = SNAP_DISTANCE * target.width / canvas.getBoundingClientRect().width;
+      next = snapView(proposed, threshold, zoomFrom !== undefined);
+      if (zoomFrom && next.zoom !== proposed.zoom) {
+        const pan = getAnchoredPan(target, zoomFrom.zoom, zoomFrom.pan, next.zoom, zoomFrom.anchor, zoomFrom.movedAnchor);
+        next = snapView({ zoom: next.zoom, pan }, threshold, false);
+      }
+    }
+    view.current = next;
+    pendingView.current = next;
+    if (viewFrame.current === null) {
+      viewFrame.current = requestAnimationFrame(() => {
+        viewFrame.current = null;
+        const pending = pendingView.current;
+        pendingView.current = null;
+        if (!pending) return;
+        setZoom(pending.zoom);
+        setPan(pending.pan);
+      });
+    }
+    return next;
+  }, [setZoom, setPan, snapView, canvasRef, target]);
+
+  /**
+   * Records the current pointers as the start of a gesture: one pointer pans,
+   * two pointers pinch around their midpoint.
+   */
+  const startGesture = () => {
+    const points = [...pointers.current.values()];
+    if (points.length === 0) {
+      gestureStart.current = null;
+      return;
+    }
+    const [a, b = a] = points;
+    gestureStart.current = {
+      ...view.current,
+      anchor: { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 },
+      distance: Math.hypot(b.x - a.x, b.y - a.y),
+    };
   };
 
-  const handleInteractionMove = (clientX: number, clientY: number) => {
-    if (!isDragging.current) return;
-    const dx = clientX - dragStart.current.x;
-    const dy = clientY - dragStart.current.y;
-    setPan({
-      x: lastPan.current.x + dx,
-      y: lastPan.current.y + dy,
-    });
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    const point = toOutputPoint(e.clientX, e.clientY);
+    if (!point) return;
+    if (onPickPoint) {
+      onPickPoint(point);
+      return;
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+    if (brush) {
+      setStroke([point]);
+      return;
+    }
+    pointers.current.set(e.pointerId, point);
+    startGesture();
   };
 
-  const handleInteractionEnd = () => {
-    isDragging.current = false;
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const start = gestureStart.current;
+    const point = toOutputPoint(e.clientX, e.clientY);
+    if (loupeScale > 0) setHoverPoint(point);
+    if (stroke && point) {
+      setStroke(prev => prev && [...prev, point]);
+      return;
+    }
+    if (!start || !point || !pointers.current.has(e.pointerId)) return;
+    pointers.current.set(e.pointerId, point);
+
+    const [a, b = a] = [...pointers.current.values()];
+    const anchor = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+    const distance = Math.hypot(b.x - a.x, b.y - a.y);
+    const nextZoom = start.distance > 0
+      ? Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, start.zoom * distance / start.distance))
+      : start.zoom;
+    const proposed = { zoom: nextZoom, pan: getAnchoredPan(target, start.zoom, start.pan, nextZoom, start.anchor, anchor) };
+    scheduleView(proposed, pointers.current.size > 1 ? { ...start, movedAnchor: anchor } : undefined);
   };
-  
-  const handleWheel = (e: React.WheelEvent<HTMLCanvasElement>) => {
+
+  const handlePointerEnd = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (stroke) {
+      if (e.type === 'pointerup') brush?.onStroke(stroke);
+      setStroke(null);
+      return;
+    }
+    if (!pointers.current.delete(e.pointerId)) return;
+    // Continue with the remaining finger from where it is now
+    startGesture();
+  };
+
+  // Keyboard steps apply at once and skip snapping, which would pull small nudges back onto a guide
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.ctrlKey || e.metaKey || e.altKey) return;
+    const { zoom: currentZoom, pan: currentPan } = view.current;
+    const step = e.shiftKey ? LARGE_NUDGE_STEP : NUDGE_STEP;
+    const applyView = (next: { zoom: number; pan: Point }) => {
+      view.current = next;
+      setZoom(next.zoom);
+      setPan(next.pan);
+    };
+    const nudge = (dx: number, dy: number) => applyView({ zoom: currentZoom, pan: { x: currentPan.x + dx, y: currentPan.y + dy } });
+    const zoomBy = (factor: number) => {
+      const nextZoom = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, currentZoom * factor));
+      const center = { x: target.width / 2, y: target.height / 2 };
+      applyView({ zoom: nextZoom, pan: getAnchoredPan(target, currentZoom, currentPan, nextZoom, center) });
+    };
+
+    switch (e.key) {
+      case 'ArrowLeft': nudge(-step, 0); break;
+      case 'ArrowRight': nudge(step, 0); break;
+      case 'ArrowUp': nudge(0, -step); break;
+      case 'ArrowDown': nudge(0, step); break;
+      case '+':
+      case '=': zoomBy(KEY_ZOOM_FACTOR); break;
+      case '-':
+      case '_': zoomBy(1 / KEY_ZOOM_FACTOR); break;
+      case '0': onResetView(); break;
+      default: return;
+    }
     e.preventDefault();
-    const zoomAmount = e.deltaY * -0.01;
-    setZoom(prevZoom => Math.max(1, Math.min(prevZoom + zoomAmount, 10)));
   };
 
+  // Registered natively because React's wheel listener is passive and can't stop the page scrolling
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const anchor = toOutputPoint(e.clientX, e.clientY);
+      if (!anchor) return;
+      const delta = e.deltaMode === WheelEvent.DOM_DELTA_LINE ? e.deltaY * 16 : e.deltaY;
+      // Trackpad pinches arrive as wheel events with ctrlKey and small deltas
+      const factor = Math.exp(-delta * (e.ctrlKey ? 0.01 : 0.002));
+      // Steps build on the unsnapped view while its snapped result is still showing,
+      // so small trackpad steps add up and can leave a snapped zoom
+      const last = wheelView.current;
+      const base = last && isSameView(last.snapped, view.current) ? last.unsnapped : view.current;
+      const nextZoom = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, base.zoom * factor));
+      const unsnapped = { zoom: nextZoom, pan: getAnchoredPan(target, base.zoom, base.pan, nextZoom, anchor) };
+      const snapped = scheduleView(unsnapped, { ...base, anchor });
+      wheelView.current = { unsnapped, snapped };
+    };
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', handleWheel);
+  }, [canvasRef, target, toOutputPoint, scheduleView]);
+
   return (
     <div className="flex flex-col gap-3">
-      <h3 className="text-lg font-semibold text-sky-400">ปรับขนาดแล้ว</h3>
+      <h3 className="text-lg font-semibold text-sky-400">{t('app.resized')}</h3>
       <div 
-        className="bg-slate-900 p-2 rounded-lg border border-slate-700 touch-none cursor-grab active:cursor-grabbing"
-        onMouseDown={(e) => handleInteractionStart(e.clientX, e.clientY)}
-        onMouseMove={(e) => handleInteractionMove(e.clientX, e.clientY)}
-        onMouseUp={handleInteractionEnd}
-        onMouseLeave={handleInteractionEnd}
-        onTouchStart={(e) => handleInteractionStart(e.touches[0].clientX, e.touches[0].clientY)}
-        onTouchMove={(e) => handleInteractionMove(e.touches[0].clientX, e.touches[0].clientY)}
-        onTouchEnd={handleInteractionEnd}
+        className={`bg-slate-900 p-2 rounded-lg border border-slate-700 touch-none focus:outline-none focus-visible:ring-2 focus-visible:ring-sky-500 ${onPickPoint || brush ? 'cursor-crosshair' : 'cursor-grab active:cursor-grabbing'}`}
+        tabIndex={0}
+        role="application"
+        aria-label={t('canvas.label', { size: formatDimensions(target), zoom: formatNumber(zoom, 2) })}
+        aria-describedby={hintId}
+        onKeyDown={handleKeyDown}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerEnd}
+        onPointerCancel={handlePointerEnd}
+        onPointerLeave={() => setHoverPoint(null)}
       >
-        <canvas
-          ref={canvasRef}
-          width={TARGET_WIDTH}
-          height={TARGET_HEIGHT}
-          className="w-full h-auto rounded-md"
-          onWheel={handleWheel}
-        />
+        <p id={hintId} className="sr-only">
+          {t('canvas.keyboardHint')}
+        </p>
+        <div className="relative">
+          {/* Sized by the renderer, since it may hand the canvas to a worker */}
+          <canvas
+            ref={canvasRef}
+            className="block w-full h-auto rounded-md"
+            style={transparent ? CHECKERBOARD_STYLE : undefined}
+          />
+          {isComparing && (
+            <CompareOverlay image={beforeImage} split={split} backgroundStyle={transparent ? CHECKERBOARD_STYLE : undefined} />
+          )}
+          <GuideOverlay target={target} settings={guides} />
+          {overlay && <OverlayEditor target={target} {...overlay} />}
+          {stroke && brush && (
+            <svg viewBox={`0 0 ${target.width} ${target.height}`} className="absolute inset-0 w-full h-full pointer-events-none" aria-hidden="true">
+              <polyline
+                points={stroke.map(p => `${p.x},${p.y}`).join(' ')}
+                fill="none"
+                stroke={brush.mode === 'keep' ? '#4ade80' : '#f87171'}
+                strokeOpacity={0.5}
+                strokeWidth={brush.radius * 2}
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              />
+            </svg>
+          )}
+          {loupeScale > 0 && hoverPoint && (
+            <Loupe image={encoded.image} target={target} point={hoverPoint} scale={loupeScale} label={encoded.label} isStale={encoded.isStale} />
+          )}
+        </div>
       </div>
       <div className="flex items-center gap-3 px-1 text-slate-400 text-sm">
-        <label htmlFor="zoom-slider" className="whitespace-nowrap">ซูม ({zoom.toFixed(1)}x)</label>
+        <label htmlFor="zoom-slider" className="whitespace-nowrap">{t('canvas.zoom', { zoom: formatNumber(zoom, 2) })}</label>
         <input
           id="zoom-slider"
           type="range"
-          min="1"
-          max="10"
-          step="0.1"
+          min={MIN_ZOOM}
+          max={MAX_ZOOM}
+          step="0.05"
           value={zoom}
           onChange={(e) => setZoom(Number(e.target.value))}
           className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-sky-500"
-          aria-label="Zoom slider"
+          aria-label={t('canvas.zoomSlider')}
         />
       </div>
-      <div className="text-center text-sm text-slate-400 bg-slate-800 rounded-full px-3 py-1 self-center">
-        {TARGET_WIDTH} x {TARGET_HEIGHT} px
+      <div className="flex flex-wrap items-center gap-3 px-1 text-slate-400 text-sm">
+        <label className="flex items-center gap-2 whitespace-nowrap">
+          <input
+            type="checkbox"
+            checked={isComparing}
+            onChange={(e) => onComparingChange(e.target.checked)}
+            className="accent-sky-500"
+          />
+          <span>{t('canvas.compare')}</span>
+        </label>
+        {isComparing && (
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.01}
+            value={split}
+            onChange={(e) => setSplit(Number(e.target.value))}
+            className="flex-1 min-w-24 h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-sky-500"
+            aria-label={t('canvas.compareSplit')}
+          />
+        )}
+        <label className="flex items-center gap-2 whitespace-nowrap">
+          <span>{t('canvas.loupe')}</span>
+          <select
+            value={loupeScale}
+            onChange={(e) => onLoupeScaleChange(Number(e.target.value))}
+            className="bg-slate-900 border border-slate-600 rounded-md px-2 py-1 text-slate-200 focus:outline-none focus:ring-2 focus:ring-sky-500"
+          >
+            {LOUPE_SCALES.map(scale => (
+              <option key={scale} value={scale}>{scale === 0 ? t('canvas.loupeOff') : `${scale * 100}%`}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <div className="flex flex-wrap items-center justify-center gap-2 text-sm">
+        <button type="button" className={historyButtonClasses} onClick={onUndo} disabled={!canUndo} title="Ctrl+Z">
+          ↶ {t('canvas.undo')}
+        </button>
+        <button type="button" className={historyButtonClasses} onClick={onRedo} disabled={!canRedo} title="Ctrl+Shift+Z">
+          ↷ {t('canvas.redo')}
+        </button>
+        <button
+          type="button"
+          className={historyButtonClasses}
+          onClick={onResetView}
+          disabled={zoom === 1 && pan.x === 0 && pan.y === 0}
+          title="0"
+        >
+          {t('canvas.resetView')}
+        </button>
+      </div>
+      <TransformControls transform={transform} onChange={setTransform} />
+      <div className="flex flex-wrap items-center justify-center gap-2">
+        <div className="text-center text-sm text-slate-400 bg-slate-800 rounded-full px-3 py-1">
+          {formatDimensions(target)}
+        </div>
+        {upscale !== null && (
+          <div className="text-center text-sm text-amber-300 bg-amber-900/40 border border-amber-500/50 rounded-full px-3 py-1" role="status">
+            {t('canvas.upscaleWarning', { scale: formatNumber(upscale, 1) })}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,99 @@
+import React from 'react';
+import type { ColorAdjustments, Histogram } from '../types';
+import { ADJUSTMENT_SLIDERS, DEFAULT_ADJUSTMENTS, isNeutralAdjustment } from '../utils/adjust';
+import { formatNumber, t } from '../utils/i18n';
+
+interface AdjustmentsPanelProps {
+  adjustments: ColorAdjustments;
+  onChange: (adjustments: ColorAdjustments) => void;
+  /** Applies auto white balance and levels. */
+  onAuto: () => void;
+  /** The histogram of the adjusted image, or null while it isn't available. */
+  histogram: Histogram | null;
+}
+
+const buttonClasses = 'px-3 py-1 rounded-md bg-slate-700 text-slate-200 hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed';
+
+const HISTOGRAM_CHANNELS: { key: keyof Histogram; color: string }[] = [
+  { key: 'r', color: '#f87171' },
+  { key: 'g', color: '#4ade80' },
+  { key: 'b', color: '#60a5fa' },
+];
+
+/**
+ * Builds an SVG path outlining a channel's counts, scaled so `peak` reaches the top.
+ */
+const getHistogramPath = (bins: Uint32Array, peak: number): string => {
+  const points = Array.from(bins, (count, i) => `L${i},${100 - Math.min(1, count / peak) * 100}`);
+  return `M0,100 ${points.join(' ')} L255,100 Z`;
+};
+
+const HistogramChart: React.FC<{ histogram: Histogram }> = ({ histogram }) => {
+  // Scaled to the busiest luma bin but one, so a single spike of pure black or white doesn't flatten the rest
+  const sorted = Array.from(histogram.luma).sort((a, b) => b - a);
+  const peak = Math.max(1, sorted[1] ?? sorted[0]);
+
+  return (
+    <svg viewBox="0 0 255 100" preserveAspectRatio="none" className="w-full h-20 bg-slate-900 rounded-md" role="img" aria-label={t('adjust.histogram')}>
+      <path d={getHistogramPath(histogram.luma, peak)} fill="#94a3b8" fillOpacity={0.35} />
+      {HISTOGRAM_CHANNELS.map(({ key, color }) => (
+        <path key={key} d={getHistogramPath(histogram[key], peak)} fill="none" stroke={color} strokeWidth={1} vectorEffect="non-scaling-stroke" />
+      ))}
+    </svg>
+  );
+};
+
+const AdjustmentsPanel: React.FC<AdjustmentsPanelProps> = ({ adjustments, onChange, onAuto, histogram }) => {
+  const isAutoApplied = adjustments.whiteBalance !== DEFAULT_ADJUSTMENTS.whiteBalance || adjustments.levels !== DEFAULT_ADJUSTMENTS.levels;
+
+  return (
+    <div className="flex flex-col gap-3 text-sm text-slate-400 bg-slate-900/50 border border-slate-700 rounded-lg p-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <span>{t('adjust.title')}</span>
+        <div className="flex flex-wrap items-center gap-2">
+          <button type="button" className={buttonClasses} onClick={onAuto} disabled={!histogram}>
+            {t('adjust.auto')}
+          </button>
+          {isAutoApplied && (
+            <button
+              type="button"
+              className="text-sky-400 hover:text-sky-300"
+              onClick={() => onChange({ ...adjustments, whiteBalance: DEFAULT_ADJUSTMENTS.whiteBalance, levels: DEFAULT_ADJUSTMENTS.levels })}
+            >
+              {t('adjust.undoAuto')}
+            </button>
+          )}
+          <button
+            type="button"
+            className={buttonClasses}
+            onClick={() => onChange(DEFAULT_ADJUSTMENTS)}
+            disabled={isNeutralAdjustment(adjustments)}
+          >
+            {t('adjust.reset')}
+          </button>
+        </div>
+      </div>
+      {histogram && <HistogramChart histogram={histogram} />}
+      {ADJUSTMENT_SLIDERS.map(({ key, label, min, max, step }) => (
+        <div key={key} className="flex items-center gap-3">
+          <label htmlFor={`adjust-${key}`} className="w-40 shrink-0">
+            {t(label)} ({key === 'exposure' ? formatNumber(adjustments[key], 2) : formatNumber(adjustments[key])})
+          </label>
+          <input
+            id={`adjust-${key}`}
+            type="range"
+            min={min}
+            max={max}
+            step={step}
+            value={adjustments[key]}
+            onChange={(e) => onChange({ ...adjustments, [key]: Number(e.target.value) })}
+            onDoubleClick={() => onChange({ ...adjustments, [key]: 0 })}
+            className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-sky-500"
+          />
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default AdjustmentsPanel;
@@ -0,0 +1,59 @@
+import React from 'react';
+import type { AutoFrameMethod, AutoFrameSettings } from '../types';
+import { AUTO_FRAME_METHODS } from '../utils/autoframe';
+import { t } from '../utils/i18n';
+
+interface AutoFramePanelProps {
+  settings: AutoFrameSettings;
+  onChange: (settings: AutoFrameSettings) => void;
+  onAutoFrame: () => void;
+  /** False until the active image has been analyzed. */
+  available: boolean;
+}
+
+const inputClasses = 'bg-slate-900 border border-slate-600 rounded-md px-2 py-1 text-slate-200 focus:outline-none focus:ring-2 focus:ring-sky-500';
+
+const AutoFramePanel: React.FC<AutoFramePanelProps> = ({ settings, onChange, onAutoFrame, available }) => (
+  <div className="flex flex-wrap items-center gap-4 text-sm text-slate-400 bg-slate-900/50 border border-slate-700 rounded-lg p-4">
+    <button
+      type="button"
+      onClick={onAutoFrame}
+      disabled={!available}
+      className="px-3 py-1 rounded-md bg-sky-600 text-white hover:bg-sky-500 disabled:opacity-50 disabled:cursor-not-allowed"
+    >
+      {t('autoFrame.apply')}
+    </button>
+    <label className="flex items-center gap-2">
+      <span>{t('autoFrame.method')}</span>
+      <select
+        value={settings.method}
+        onChange={(e) => onChange({ ...settings, method: e.target.value as AutoFrameMethod })}
+        className={inputClasses}
+      >
+        {AUTO_FRAME_METHODS.map(({ method, label }) => (
+          <option key={method} value={method}>{t(label)}</option>
+        ))}
+      </select>
+    </label>
+    <label className="flex items-center gap-2">
+      <input
+        type="checkbox"
+        checked={settings.fill}
+        onChange={(e) => onChange({ ...settings, fill: e.target.checked })}
+        className="accent-sky-500"
+      />
+      <span>{t('autoFrame.fill')}</span>
+    </label>
+    <label className="flex items-center gap-2">
+      <input
+        type="checkbox"
+        checked={settings.applyOnLoad}
+        onChange={(e) => onChange({ ...settings, applyOnLoad: e.target.checked })}
+        className="accent-sky-500"
+      />
+      <span>{t('autoFrame.applyOnLoad')}</span>
+    </label>
+  </div>
+);
+
+export default AutoFramePanel;
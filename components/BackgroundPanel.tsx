@@ -0,0 +1,54 @@
+import React from 'react';
+import type { BackgroundMode, BackgroundSettings } from '../types';
+import { BACKGROUND_MODES } from '../utils/background';
+import { t } from '../utils/i18n';
+
+interface BackgroundPanelProps {
+  settings: BackgroundSettings;
+  onChange: (settings: BackgroundSettings) => void;
+  allowTransparent: boolean;
+  isPickingColor: boolean;
+  onTogglePickingColor: () => void;
+}
+
+const inputClasses = 'bg-slate-900 border border-slate-600 rounded-md px-2 py-1 text-slate-200 focus:outline-none focus:ring-2 focus:ring-sky-500';
+
+const BackgroundPanel: React.FC<BackgroundPanelProps> = ({ settings, onChange, allowTransparent, isPickingColor, onTogglePickingColor }) => (
+  <div className="flex flex-wrap items-center gap-4 text-sm text-slate-400 bg-slate-900/50 border border-slate-700 rounded-lg p-4">
+    <label className="flex items-center gap-2">
+      <span>{t('background.title')}</span>
+      <select
+        value={settings.mode}
+        onChange={(e) => onChange({ ...settings, mode: e.target.value as BackgroundMode })}
+        className={inputClasses}
+      >
+        {BACKGROUND_MODES.map(({ mode, label }) => (
+          <option key={mode} value={mode} disabled={mode === 'transparent' && !allowTransparent}>
+            {t(label)}
+          </option>
+        ))}
+      </select>
+    </label>
+    {settings.mode === 'custom' && (
+      <>
+        <input
+          type="color"
+          value={settings.color}
+          onChange={(e) => onChange({ ...settings, color: e.target.value })}
+          className="w-10 h-8 bg-transparent cursor-pointer"
+          aria-label={t('background.color')}
+        />
+        <button
+          type="button"
+          onClick={onTogglePickingColor}
+          className={`px-3 py-1 rounded-md ${isPickingColor ? 'bg-sky-600 text-white' : 'bg-slate-700 text-slate-200 hover:bg-slate-600'}`}
+          aria-pressed={isPickingColor}
+        >
+          {isPickingColor ? t('background.picking') : t('background.pick')}
+        </button>
+      </>
+    )}
+  </div>
+);
+
+export default BackgroundPanel;
@@ -0,0 +1,45 @@
+import React, { useEffect, useRef } from 'react';
+import { t } from '../utils/i18n';
+
+interface CompareOverlayProps {
+  /** The unedited framing, or null while it is being rendered. */
+  image: ImageBitmap | null;
+  /** Share of the frame's width, from the left, that shows the unedited framing. */
+  split: number;
+  /** Drawn behind the image, e.g. a checkerboard for transparent output. */
+  backgroundStyle?: React.CSSProperties;
+}
+
+const labelClasses = 'absolute top-2 rounded-full bg-slate-900/75 px-2 py-0.5 text-xs text-slate-200 pointer-events-none';
+
+/**
+ * Covers the left part of the preview canvas with the same framing before any
+ * edits, with a divider at the split, for a before/after comparison.
+ */
+const CompareOverlay: React.FC<CompareOverlayProps> = ({ image, split, backgroundStyle }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !image) return;
+    canvas.width = image.width;
+    canvas.height = image.height;
+    canvas.getContext('2d')?.drawImage(image, 0, 0);
+  }, [image]);
+
+  return (
+    <>
+      <canvas
+        ref={canvasRef}
+        className={`absolute inset-0 w-full h-full rounded-md pointer-events-none ${image ? '' : 'hidden'}`}
+        style={{ ...backgroundStyle, clipPath: `inset(0 ${(1 - split) * 100}% 0 0)` }}
+        aria-hidden="true"
+      />
+      <div className="absolute inset-y-0 w-0.5 -ml-px bg-white/80 pointer-events-none" style={{ left: `${split * 100}%` }} />
+      <span className={`${labelClasses} left-2`}>{t('compare.before')}</span>
+      <span className={`${labelClasses} right-2`}>{t('compare.after')}</span>
+    </>
+  );
+};
+
+export default CompareOverlay;
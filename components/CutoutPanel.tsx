@@ -0,0 +1,132 @@
+import React from 'react';
+import type { BrushMode, CutoutSettings } from '../types';
+import { MAX_CUTOUT_FEATHER, MAX_CUTOUT_TOLERANCE } from '../utils/cutout';
+import { t, type MessageKey } from '../utils/i18n';
+
+interface CutoutPanelProps {
+  settings: CutoutSettings;
+  onChange: (settings: CutoutSettings) => void;
+  /** The brush painting on the preview, or null when dragging pans. */
+  brushMode: BrushMode | null;
+  onBrushModeChange: (mode: BrushMode | null) => void;
+  /** Brush radius in output pixels. */
+  brushRadius: number;
+  onBrushRadiusChange: (radius: number) => void;
+  /** Whether the export format can keep the removed background transparent. */
+  allowTransparent: boolean;
+  isTransparent: boolean;
+  onMakeTransparent: () => void;
+}
+
+const sliderClasses = 'w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-sky-500';
+const toggleClasses = (active: boolean) =>
+  `px-3 py-1 rounded-md ${active ? 'bg-sky-600 text-white' : 'bg-slate-700 text-slate-200 hover:bg-slate-600'}`;
+
+const BRUSH_MODES: { mode: BrushMode; label: MessageKey }[] = [
+  { mode: 'keep', label: 'cutout.keepBrush' },
+  { mode: 'erase', label: 'cutout.eraseBrush' },
+];
+
+const CutoutPanel: React.FC<CutoutPanelProps> = ({
+  settings,
+  onChange,
+  brushMode,
+  onBrushModeChange,
+  brushRadius,
+  onBrushRadiusChange,
+  allowTransparent,
+  isTransparent,
+  onMakeTransparent,
+}) => (
+  <div className="flex flex-col gap-3 text-sm text-slate-400 bg-slate-900/50 border border-slate-700 rounded-lg p-4">
+    <div className="flex flex-wrap items-center gap-4">
+      <label className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={settings.enabled}
+          onChange={(e) => {
+            onChange({ ...settings, enabled: e.target.checked });
+            if (!e.target.checked) onBrushModeChange(null);
+          }}
+          className="accent-sky-500"
+        />
+        <span>{t('cutout.enable')}</span>
+      </label>
+      {settings.enabled && !isTransparent && (
+        allowTransparent ? (
+          <button type="button" onClick={onMakeTransparent} className="text-sky-400 hover:text-sky-300">
+            {t('cutout.makeTransparent')}
+          </button>
+        ) : (
+          <span>{t('cutout.needsAlpha')}</span>
+        )
+      )}
+    </div>
+    {settings.enabled && (
+      <>
+        <div className="flex items-center gap-3">
+          <label htmlFor="cutout-tolerance" className="w-40 shrink-0">{t('cutout.tolerance', { value: settings.tolerance })}</label>
+          <input
+            id="cutout-tolerance"
+            type="range"
+            min={0}
+            max={MAX_CUTOUT_TOLERANCE}
+            step={1}
+            value={settings.tolerance}
+            onChange={(e) => onChange({ ...settings, tolerance: Number(e.target.value) })}
+            className={sliderClasses}
+          />
+        </div>
+        <div className="flex items-center gap-3">
+          <label htmlFor="cutout-feather" className="w-40 shrink-0">{t('cutout.feather', { value: settings.feather })}</label>
+          <input
+            id="cutout-feather"
+            type="range"
+            min={0}
+            max={MAX_CUTOUT_FEATHER}
+            step={1}
+            value={settings.feather}
+            onChange={(e) => onChange({ ...settings, feather: Number(e.target.value) })}
+            className={sliderClasses}
+          />
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {BRUSH_MODES.map(({ mode, label }) => (
+            <button
+              key={mode}
+              type="button"
+              className={toggleClasses(brushMode === mode)}
+              onClick={() => onBrushModeChange(brushMode === mode ? null : mode)}
+              aria-pressed={brushMode === mode}
+            >
+              {t(label)}
+            </button>
+          ))}
+          <label className="flex items-center gap-2">
+            <span>{t('cutout.brushSize')}</span>
+            <input
+              type="range"
+              min={2}
+              max={100}
+              step={1}
+              value={brushRadius}
+              onChange={(e) => onBrushRadiusChange(Number(e.target.value))}
+              className="w-32 h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-sky-500"
+              aria-label={t('cutout.brushSize')}
+            />
+          </label>
+          {settings.strokes.length > 0 && (
+            <button type="button" onClick={() => onChange({ ...settings, strokes: [] })} className="text-red-400 hover:text-red-300">
+              {t('cutout.clearStrokes', { count: settings.strokes.length })}
+            </button>
+          )}
+        </div>
+        {brushMode && (
+          <p>{brushMode === 'keep' ? t('cutout.keepHint') : t('cutout.eraseHint')}</p>
+        )}
+      </>
+    )}
+  </div>
+);
+
+export default CutoutPanel;
@@ -0,0 +1,87 @@
+import React from 'react';
+import type { ExportSettings, OutputFormat, SizeEstimate } from '../types';
+import { OUTPUT_FORMATS } from '../utils/encode';
+import { formatFileSize } from '../utils/format';
+import { t } from '../utils/i18n';
+
+interface ExportPanelProps {
+  settings: ExportSettings;
+  onChange: (settings: ExportSettings) => void;
+  estimate: SizeEstimate | null;
+  estimateError: string | null;
+  isEstimating: boolean;
+}
+
+const inputClasses = 'bg-slate-900 border border-slate-600 rounded-md px-2 py-1 text-slate-200 focus:outline-none focus:ring-2 focus:ring-sky-500';
+
+const ExportPanel: React.FC<ExportPanelProps> = ({ settings, onChange, estimate, estimateError, isEstimating }) => {
+  const { lossy } = OUTPUT_FORMATS[settings.format];
+
+  const renderEstimate = () => {
+    if (estimateError) {
+      return <span className="text-red-400">{estimateError}</span>;
+    }
+    if (isEstimating || !estimate) {
+      return <span>{t('export.estimating')}</span>;
+    }
+    return (
+      <span className={estimate.withinBudget ? 'text-slate-300' : 'text-amber-400'}>
+        {t('export.estimate', { size: formatFileSize(estimate.size) })}
+        {lossy && ` (${t('export.quality', { quality: Math.round(estimate.quality * 100) })})`}
+        {!estimate.withinBudget && ` ${t('export.overBudget')}`}
+      </span>
+    );
+  };
+
+  return (
+    <div className="flex flex-col gap-3 text-sm text-slate-400 bg-slate-900/50 border border-slate-700 rounded-lg p-4">
+      <div className="flex flex-wrap items-center gap-4">
+        <label className="flex items-center gap-2">
+          <span>{t('export.format')}</span>
+          <select
+            value={settings.format}
+            onChange={(e) => onChange({ ...settings, format: e.target.value as OutputFormat })}
+            className={inputClasses}
+          >
+            {(Object.keys(OUTPUT_FORMATS) as OutputFormat[]).map(format => (
+              <option key={format} value={format}>{OUTPUT_FORMATS[format].label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2 grow">
+          <span className="whitespace-nowrap">{t('export.quality', { quality: Math.round(settings.quality * 100) })}</span>
+          <input
+            type="range"
+            min="0.05"
+            max="1"
+            step="0.01"
+            value={settings.quality}
+            onChange={(e) => onChange({ ...settings, quality: Number(e.target.value) })}
+            disabled={!lossy}
+            className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-sky-500 disabled:opacity-50"
+            aria-label={t('export.qualitySlider')}
+          />
+        </label>
+        <label className="flex items-center gap-2">
+          <span className="whitespace-nowrap">{t('export.maxSize')}</span>
+          <input
+            type="number"
+            min="1"
+            placeholder={t('common.unlimited')}
+            value={settings.maxKB ?? ''}
+            onChange={(e) => {
+              const value = Number(e.target.value);
+              onChange({ ...settings, maxKB: e.target.value && value > 0 ? value : null });
+            }}
+            className={`${inputClasses} w-28`}
+            aria-label={t('export.maxSizeKB')}
+          />
+          <span>KB</span>
+        </label>
+      </div>
+      <div className="text-center">{renderEstimate()}</div>
+    </div>
+  );
+};
+
+export default ExportPanel;
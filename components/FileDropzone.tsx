@@ -1,18 +1,23 @@
 import React, { useState, useCallback } from 'react';
-import { UploadIcon, PhotoIcon } from './icons';
+import { PhotoIcon } from './icons';
+import { getDroppedUrls } from '../utils/clipboard';
+import { t } from '../utils/i18n';
 
 interface FileDropzoneProps {
-  onFileSelect: (file: File) => void;
+  onFilesSelect: (files: File[]) => void;
+  /** Called with image URLs dropped from another browser tab, when the drop has no files. */
+  onUrlsSelect: (urls: string[]) => void;
   disabled: boolean;
 }
 
-const FileDropzone: React.FC<FileDropzoneProps> = ({ onFileSelect, disabled }) => {
+const FileDropzone: React.FC<FileDropzoneProps> = ({ onFilesSelect, onUrlsSelect, disabled }) => {
   const [isDragging, setIsDragging] = useState(false);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      onFileSelect(file);
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length > 0) {
+      onFilesSelect(files);
     }
   };
 
@@ -22,11 +27,17 @@ const FileDropzone: React.FC<FileDropzoneProps> = ({ onFileSelect, disabled }) =
     setIsDragging(false);
     if (disabled) return;
     
-    const file = e.dataTransfer.files?.[0];
-    if (file && file.type.startsWith('image/')) {
-        onFileSelect(file);
+    // Everything dropped goes to validation, which reports files it rejects instead of dropping them silently
+    const files = Array.from(e.dataTransfer.files ?? []);
+    if (files.length > 0) {
+        onFilesSelect(files);
+        return;
     }
-  }, [onFileSelect, disabled]);
+    const urls = getDroppedUrls(e.dataTransfer);
+    if (urls.length > 0) {
+        onUrlsSelect(urls);
+    }
+  }, [onFilesSelect, onUrlsSelect, disabled]);
 
   const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
@@ -56,15 +67,17 @@ const FileDropzone: React.FC<FileDropzoneProps> = ({ onFileSelect, disabled }) =
         type="file"
         className="hidden"
         accept="image/png, image/jpeg, image/webp"
+        multiple
         onChange={handleFileChange}
         disabled={disabled}
       />
       <div className="flex flex-col items-center gap-4 text-slate-400">
         <PhotoIcon className="w-16 h-16" />
         <p className="text-lg font-semibold text-slate-300">
-          <span className="text-sky-500">คลิกเพื่ออัปโหลด</span> หรือลากไฟล์มาวาง
+          <span className="text-sky-500">{t('dropzone.click')}</span> {t('dropzone.drag')}
         </p>
-        <p className="text-sm">รองรับไฟล์ PNG, JPG, WEBP</p>
+        <p className="text-sm">{t('dropzone.formats')}</p>
+        <p className="text-sm">{t('dropzone.paste')}</p>
       </div>
     </div>
   );
@@ -0,0 +1,81 @@
+import React, { useId } from 'react';
+import type { GuideSettings, ImageDimensions } from '../types';
+import { ROUNDED_AVATAR_RADIUS, getSafeZoneRect } from '../utils/guides';
+
+interface GuideOverlayProps {
+  target: ImageDimensions;
+  settings: GuideSettings;
+}
+
+const lineProps = {
+  stroke: 'rgba(255, 255, 255, 0.75)',
+  strokeWidth: 1,
+  vectorEffect: 'non-scaling-stroke',
+} as const;
+
+/**
+ * Composition guides drawn in output coordinates over the preview canvas.
+ * This is a separate layer, so nothing here reaches the renderer or the export.
+ */
+const GuideOverlay: React.FC<GuideOverlayProps> = ({ target, settings }) => {
+  const maskId = useId();
+  const { width, height } = target;
+  const avatarSize = Math.min(width, height);
+  const zone = settings.safeZone ? getSafeZoneRect(target, settings.safeZone) : null;
+
+  return (
+    <svg
+      className="absolute inset-0 w-full h-full pointer-events-none"
+      viewBox={`0 0 ${width} ${height}`}
+      preserveAspectRatio="none"
+      aria-hidden="true"
+    >
+      {settings.avatar !== 'none' && (
+        <>
+          <mask id={`${maskId}-avatar`}>
+            <rect width={width} height={height} fill="white" />
+            {settings.avatar === 'circle' ? (
+              <circle cx={width / 2} cy={height / 2} r={avatarSize / 2} fill="black" />
+            ) : (
+              <rect
+                x={(width - avatarSize) / 2}
+                y={(height - avatarSize) / 2}
+                width={avatarSize}
+                height={avatarSize}
+                rx={avatarSize * ROUNDED_AVATAR_RADIUS}
+                fill="black"
+              />
+            )}
+          </mask>
+          <rect width={width} height={height} fill="rgba(0, 0, 0, 0.5)" mask={`url(#${maskId}-avatar)`} />
+        </>
+      )}
+      {zone && (
+        <>
+          <mask id={`${maskId}-zone`}>
+            <rect width={width} height={height} fill="white" />
+            <rect x={zone.x} y={zone.y} width={zone.width} height={zone.height} fill="black" />
+          </mask>
+          <rect width={width} height={height} fill="rgba(239, 68, 68, 0.25)" mask={`url(#${maskId}-zone)`} />
+          <rect x={zone.x} y={zone.y} width={zone.width} height={zone.height} fill="none" {...lineProps} strokeDasharray="6 4" />
+        </>
+      )}
+      {settings.thirds && (
+        <>
+          <line x1={width / 3} y1={0} x2={width / 3} y2={height} {...lineProps} />
+          <line x1={width * 2 / 3} y1={0} x2={width * 2 / 3} y2={height} {...lineProps} />
+          <line x1={0} y1={height / 3} x2={width} y2={height / 3} {...lineProps} />
+          <line x1={0} y1={height * 2 / 3} x2={width} y2={height * 2 / 3} {...lineProps} />
+        </>
+      )}
+      {settings.center && (
+        <>
+          <line x1={width / 2} y1={0} x2={width / 2} y2={height} {...lineProps} strokeDasharray="4 4" />
+          <line x1={0} y1={height / 2} x2={width} y2={height / 2} {...lineProps} strokeDasharray="4 4" />
+        </>
+      )}
+    </svg>
+  );
+};
+
+export default GuideOverlay;
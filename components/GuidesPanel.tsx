@@ -0,0 +1,107 @@
+import React from 'react';
+import type { AvatarMask, GuideSettings, Insets } from '../types';
+import { AVATAR_MASKS, SAFE_ZONE_TEMPLATES } from '../utils/guides';
+import { t, type MessageKey } from '../utils/i18n';
+
+interface GuidesPanelProps {
+  settings: GuideSettings;
+  onChange: (settings: GuideSettings) => void;
+}
+
+const inputClasses = 'bg-slate-900 border border-slate-600 rounded-md px-2 py-1 text-slate-200 focus:outline-none focus:ring-2 focus:ring-sky-500';
+
+const INSET_LABELS: { side: keyof Insets; label: MessageKey }[] = [
+  { side: 'top', label: 'guides.top' },
+  { side: 'right', label: 'guides.right' },
+  { side: 'bottom', label: 'guides.bottom' },
+  { side: 'left', label: 'guides.left' },
+];
+
+const GuidesPanel: React.FC<GuidesPanelProps> = ({ settings, onChange }) => {
+  const { safeZone } = settings;
+
+  const handleInsetChange = (side: keyof Insets, value: number) => {
+    if (!safeZone) return;
+    const inset = Math.max(0, Math.min(50, value || 0));
+    onChange({ ...settings, safeZone: { ...safeZone, insets: { ...safeZone.insets, [side]: inset } } });
+  };
+
+  return (
+    <div className="flex flex-col gap-3 text-sm text-slate-400 bg-slate-900/50 border border-slate-700 rounded-lg p-4">
+      <div className="flex flex-wrap items-center gap-4">
+        <span>{t('guides.title')}</span>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={settings.thirds}
+            onChange={(e) => onChange({ ...settings, thirds: e.target.checked })}
+            className="accent-sky-500"
+          />
+          <span>{t('guides.thirds')}</span>
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={settings.center}
+            onChange={(e) => onChange({ ...settings, center: e.target.checked })}
+            className="accent-sky-500"
+          />
+          <span>{t('guides.center')}</span>
+        </label>
+        <label className="flex items-center gap-2">
+          <span>{t('guides.avatar')}</span>
+          <select
+            value={settings.avatar}
+            onChange={(e) => onChange({ ...settings, avatar: e.target.value as AvatarMask })}
+            className={inputClasses}
+          >
+            {AVATAR_MASKS.map(({ mask, label }) => (
+              <option key={mask} value={mask}>{t(label)}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={settings.snap}
+            onChange={(e) => onChange({ ...settings, snap: e.target.checked })}
+            className="accent-sky-500"
+          />
+          <span>{t('guides.snap')}</span>
+        </label>
+      </div>
+      <div className="flex flex-wrap items-center gap-4">
+        <label className="flex items-center gap-2">
+          <span>{t('guides.safeZone')}</span>
+          <select
+            value={safeZone?.id ?? ''}
+            onChange={(e) => onChange({ ...settings, safeZone: SAFE_ZONE_TEMPLATES.find(zone => zone.id === e.target.value) ?? null })}
+            className={inputClasses}
+          >
+            <option value="">{t('common.hidden')}</option>
+            {SAFE_ZONE_TEMPLATES.map(zone => (
+              <option key={zone.id} value={zone.id}>{t(zone.name)}</option>
+            ))}
+          </select>
+        </label>
+        {safeZone && INSET_LABELS.map(({ side, label }) => (
+          <label key={side} className="flex items-center gap-1">
+            <span>{t(label)}</span>
+            <input
+              type="number"
+              min="0"
+              max="50"
+              value={safeZone.insets[side]}
+              onChange={(e) => handleInsetChange(side, Number(e.target.value))}
+              className={`${inputClasses} w-16`}
+              aria-label={t('guides.inset', { side: t(label) })}
+            />
+            <span>%</span>
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default GuidesPanel;
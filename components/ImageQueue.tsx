@@ -0,0 +1,95 @@
+import React, { useRef } from 'react';
+import type { QueueItem } from '../types';
+import { XCircleIcon } from './icons';
+import { t } from '../utils/i18n';
+
+interface ImageQueueProps {
+  items: QueueItem[];
+  activeId: string | null;
+  onSelect: (id: string) => void;
+  onRemove: (id: string) => void;
+  onAddFiles: (files: File[]) => void;
+  disabled: boolean;
+}
+
+const navButtonClasses = 'px-3 py-1 rounded-md bg-slate-700 text-slate-200 hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed';
+
+const ImageQueue: React.FC<ImageQueueProps> = ({ items, activeId, onSelect, onRemove, onAddFiles, disabled }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const activeIndex = items.findIndex(item => item.id === activeId);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length > 0) {
+      onAddFiles(files);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex items-center justify-between gap-3 text-sm text-slate-400">
+        <button
+          type="button"
+          className={navButtonClasses}
+          onClick={() => onSelect(items[activeIndex - 1].id)}
+          disabled={disabled || activeIndex <= 0}
+        >
+          {t('queue.previous')}
+        </button>
+        <span>{t('queue.position', { index: activeIndex + 1, total: items.length })}</span>
+        <button
+          type="button"
+          className={navButtonClasses}
+          onClick={() => onSelect(items[activeIndex + 1].id)}
+          disabled={disabled || activeIndex < 0 || activeIndex >= items.length - 1}
+        >
+          {t('queue.next')}
+        </button>
+      </div>
+      <div className="flex gap-2 overflow-x-auto pb-2">
+        {items.map((item, index) => (
+          <div key={item.id} className="relative shrink-0">
+            <button
+              type="button"
+              onClick={() => onSelect(item.id)}
+              disabled={disabled}
+              className={`block w-20 h-20 rounded-md overflow-hidden border-2 bg-slate-900 ${item.id === activeId ? 'border-sky-500' : 'border-slate-700 hover:border-slate-500'}`}
+              aria-label={t('queue.item', { index: index + 1, name: item.file.name })}
+              title={item.file.name}
+            >
+              <img src={item.thumbnailUrl} alt="" loading="lazy" decoding="async" className="w-full h-full object-cover" />
+            </button>
+            <button
+              type="button"
+              onClick={() => onRemove(item.id)}
+              disabled={disabled}
+              className="absolute -top-1 -right-1 rounded-full bg-slate-900 text-slate-400 hover:text-red-400"
+              aria-label={t('queue.remove', { name: item.file.name })}
+            >
+              <XCircleIcon className="w-5 h-5" />
+            </button>
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={() => inputRef.current?.click()}
+          disabled={disabled}
+          className="shrink-0 w-20 h-20 rounded-md border-2 border-dashed border-slate-600 text-slate-400 text-sm hover:border-sky-600 hover:text-sky-400"
+        >
+          {t('queue.add')}
+        </button>
+        <input
+          ref={inputRef}
+          type="file"
+          className="hidden"
+          accept="image/png, image/jpeg, image/webp"
+          multiple
+          onChange={handleFileChange}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default ImageQueue;
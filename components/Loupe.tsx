@@ -0,0 +1,84 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { ImageDimensions, Point } from '../types';
+import { t } from '../utils/i18n';
+
+interface LoupeProps {
+  /** The encoded output, or null while none is available. */
+  image: Blob | null;
+  target: ImageDimensions;
+  /** The output pixel under the pointer, which the loupe is centered on. */
+  point: Point;
+  /** Screen pixels per output pixel: 1 for 100%, 2 for 200%. */
+  scale: number;
+  /** Describes the encoding shown, e.g. its format and quality. */
+  label: string;
+  /** Set while a newer encoding is on its way. */
+  isStale: boolean;
+}
+
+// Width and height of the loupe in CSS pixels
+const LOUPE_SIZE = 200;
+
+/**
+ * Magnifies the encoded output around the pointer without smoothing, so
+ * sharpness and compression artifacts can be judged at real size.
+ */
+const Loupe: React.FC<LoupeProps> = ({ image, target, point, scale, label, isStale }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [bitmap, setBitmap] = useState<ImageBitmap | null>(null);
+
+  useEffect(() => {
+    if (!image) {
+      setBitmap(null);
+      return;
+    }
+    let cancelled = false;
+    createImageBitmap(image)
+      .then(result => {
+        if (cancelled) result.close();
+        else setBitmap(result);
+      })
+      .catch(e => console.error("Error decoding encoded preview:", e));
+    return () => {
+      cancelled = true;
+    };
+  }, [image]);
+
+  // Each bitmap is released once it has been replaced or the loupe closes
+  useEffect(() => () => bitmap?.close(), [bitmap]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = LOUPE_SIZE * ratio;
+    canvas.height = LOUPE_SIZE * ratio;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    if (!bitmap) return;
+    // Output pixels across the loupe
+    const span = LOUPE_SIZE / scale;
+    ctx.imageSmoothingEnabled = false;
+    ctx.drawImage(bitmap, point.x - span / 2, point.y - span / 2, span, span, 0, 0, canvas.width, canvas.height);
+  }, [bitmap, point, scale]);
+
+  return (
+    <div
+      className="absolute z-10 -translate-x-1/2 -translate-y-1/2 overflow-hidden rounded-full border-2 border-white/80 bg-slate-900 shadow-lg pointer-events-none"
+      style={{
+        left: `${point.x / target.width * 100}%`,
+        top: `${point.y / target.height * 100}%`,
+        width: LOUPE_SIZE,
+        height: LOUPE_SIZE,
+      }}
+      aria-hidden="true"
+    >
+      <canvas ref={canvasRef} className="block w-full h-full" style={{ imageRendering: 'pixelated' }} />
+      <span className="absolute bottom-3 left-1/2 -translate-x-1/2 whitespace-nowrap rounded-full bg-slate-900/75 px-2 py-0.5 text-xs text-slate-200">
+        {bitmap && !isStale ? `${scale * 100}% · ${label}` : t('loupe.encoding')}
+      </span>
+    </div>
+  );
+};
+
+export default Loupe;
@@ -0,0 +1,67 @@
+import React from 'react';
+import type { ImageMetadata, MetadataField, MetadataSettings } from '../types';
+import { METADATA_FIELDS } from '../utils/metadata';
+import { t } from '../utils/i18n';
+
+interface MetadataPanelProps {
+  metadata: ImageMetadata;
+  settings: MetadataSettings;
+  onChange: (settings: MetadataSettings) => void;
+  /** Metadata can only be written into JPEG output. */
+  isJpeg: boolean;
+}
+
+const MetadataPanel: React.FC<MetadataPanelProps> = ({ metadata, settings, onChange, isJpeg }) => {
+  const available = METADATA_FIELDS.filter(({ field }) => metadata.fields[field]);
+
+  const toggleField = (field: MetadataField, keep: boolean) => {
+    const keepFields = keep
+      ? [...settings.keepFields, field]
+      : settings.keepFields.filter(f => f !== field);
+    onChange({ ...settings, keepFields });
+  };
+
+  return (
+    <div className="flex flex-col gap-3 text-sm text-slate-400 bg-slate-900/50 border border-slate-700 rounded-lg p-4">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1">
+        <span>{t('metadata.title')}</span>
+        {metadata.orientation !== 1 && (
+          <span className="text-slate-300">{t('metadata.oriented')}</span>
+        )}
+        {metadata.iccProfile && (
+          <span>{t('metadata.iccProfile', { name: metadata.iccProfile })}</span>
+        )}
+        {metadata.hasGps && (
+          <span className="text-amber-400">{t('metadata.gps')}</span>
+        )}
+      </div>
+      {available.length === 0 ? (
+        <span>{t('metadata.none')}</span>
+      ) : (
+        <>
+          <span>{t('metadata.choose')}</span>
+          <div className="flex flex-col gap-1">
+            {available.map(({ field, label }) => (
+              <label key={field} className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={settings.keepFields.includes(field)}
+                  onChange={(e) => toggleField(field, e.target.checked)}
+                  disabled={!isJpeg}
+                  className="accent-sky-500"
+                />
+                <span>{t(label)}:</span>
+                <span className="text-slate-300 truncate" title={metadata.fields[field]}>{metadata.fields[field]}</span>
+              </label>
+            ))}
+          </div>
+          {!isJpeg && (
+            <span className="text-amber-400">{t('metadata.jpegOnly')}</span>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default MetadataPanel;
@@ -0,0 +1,103 @@
+import React from 'react';
+import type { MultiDownloadMode, OutputFraming, OutputPreset, OutputSpec } from '../types';
+import { describePresetSize, getPresetName } from '../utils/presets';
+import { createOutputSpec } from '../utils/outputs';
+import { t } from '../utils/i18n';
+
+interface OutputsPanelProps {
+  outputs: OutputSpec[];
+  presets: OutputPreset[];
+  onChange: (outputs: OutputSpec[]) => void;
+  /** The output whose own framing is shown on the canvas, or null for the primary. */
+  editingId: string | null;
+  onEdit: (id: string | null) => void;
+  downloadMode: MultiDownloadMode;
+  onDownloadModeChange: (mode: MultiDownloadMode) => void;
+}
+
+const inputClasses = 'bg-slate-900 border border-slate-600 rounded-md px-2 py-1 text-slate-200 focus:outline-none focus:ring-2 focus:ring-sky-500';
+
+const OutputsPanel: React.FC<OutputsPanelProps> = ({ outputs, presets, onChange, editingId, onEdit, downloadMode, onDownloadModeChange }) => {
+  const updateOutput = (id: string, changes: Partial<OutputSpec>) => {
+    onChange(outputs.map(output => output.id === id ? { ...output, ...changes } : output));
+  };
+
+  return (
+    <div className="flex flex-col gap-3 text-sm text-slate-400 bg-slate-900/50 border border-slate-700 rounded-lg p-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <span>{t('outputs.title')}</span>
+        <button
+          type="button"
+          onClick={() => onChange([...outputs, createOutputSpec(presets[0].id)])}
+          className="text-sky-400 hover:text-sky-300"
+        >
+          {t('outputs.add')}
+        </button>
+      </div>
+      {outputs.map(output => (
+        <div key={output.id} className="flex flex-wrap items-center gap-3">
+          <select
+            value={output.presetId}
+            onChange={(e) => updateOutput(output.id, { presetId: e.target.value })}
+            className={inputClasses}
+            aria-label={t('outputs.size')}
+          >
+            {presets.map(p => (
+              <option key={p.id} value={p.id}>
+                {getPresetName(p)} ({describePresetSize(p)})
+              </option>
+            ))}
+          </select>
+          <select
+            value={output.framing}
+            onChange={(e) => {
+              const framing = e.target.value as OutputFraming;
+              updateOutput(output.id, { framing });
+              if (framing === 'inherit' && editingId === output.id) onEdit(null);
+            }}
+            className={inputClasses}
+            aria-label={t('outputs.framing')}
+          >
+            <option value="inherit">{t('outputs.inherit')}</option>
+            <option value="own">{t('outputs.own')}</option>
+          </select>
+          {output.framing === 'own' && (
+            <button
+              type="button"
+              onClick={() => onEdit(editingId === output.id ? null : output.id)}
+              className={`px-3 py-1 rounded-md ${editingId === output.id ? 'bg-sky-600 text-white' : 'bg-slate-700 text-slate-200 hover:bg-slate-600'}`}
+              aria-pressed={editingId === output.id}
+            >
+              {editingId === output.id ? t('outputs.editing') : t('outputs.edit')}
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={() => {
+              onChange(outputs.filter(o => o.id !== output.id));
+              if (editingId === output.id) onEdit(null);
+            }}
+            className="text-red-400 hover:text-red-300"
+          >
+            {t('common.delete')}
+          </button>
+        </div>
+      ))}
+      {outputs.length > 0 && (
+        <label className="flex items-center gap-2">
+          <span>{t('outputs.downloadAs')}</span>
+          <select
+            value={downloadMode}
+            onChange={(e) => onDownloadModeChange(e.target.value as MultiDownloadMode)}
+            className={inputClasses}
+          >
+            <option value="files">{t('outputs.files')}</option>
+            <option value="zip">{t('outputs.zip')}</option>
+          </select>
+        </label>
+      )}
+    </div>
+  );
+};
+
+export default OutputsPanel;
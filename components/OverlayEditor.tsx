@@ -0,0 +1,113 @@
+import React, { useRef } from 'react';
+import type { ImageDimensions, OverlayItem, Point, Rect, WatermarkTemplate } from '../types';
+import { MAX_OVERLAY_SIZE, MIN_OVERLAY_SIZE, getMeasureContext, getOverlayBox, getOverlayOffset } from '../utils/overlay';
+
+interface OverlayEditorProps {
+  target: ImageDimensions;
+  template: WatermarkTemplate;
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+  /** Reports an item moved or resized by dragging. */
+  onChange: (item: OverlayItem) => void;
+}
+
+/**
+ * Outlines the watermark items over the preview canvas, in output coordinates,
+ * and lets them be dragged into place or resized from their bottom-right corner.
+ * The items themselves are drawn by the renderer.
+ */
+const OverlayEditor: React.FC<OverlayEditorProps> = ({ target, template, selectedId, onSelect, onChange }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const drag = useRef<{ mode: 'move' | 'resize'; item: OverlayItem; box: Rect; start: Point } | null>(null);
+  const ctx = getMeasureContext();
+  if (!ctx) return null;
+  const handleSize = Math.max(target.width, target.height) / 40;
+
+  const toOutputPoint = (e: React.PointerEvent): Point | null => {
+    const svg = svgRef.current;
+    if (!svg) return null;
+    const bounds = svg.getBoundingClientRect();
+    return {
+      x: (e.clientX - bounds.left) * target.width / bounds.width,
+      y: (e.clientY - bounds.top) * target.height / bounds.height,
+    };
+  };
+
+  // Stops the canvas underneath from starting a pan
+  const handlePointerDown = (e: React.PointerEvent<SVGRectElement>, item: OverlayItem, mode: 'move' | 'resize') => {
+    e.stopPropagation();
+    const start = toOutputPoint(e);
+    if (!start) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    onSelect(item.id);
+    drag.current = { mode, item, box: getOverlayBox(ctx, item, target), start };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGGElement>) => {
+    const current = drag.current;
+    const point = toOutputPoint(e);
+    if (!current || !point) return;
+    e.stopPropagation();
+    const { item, box, start } = current;
+    const dx = point.x - start.x;
+    const dy = point.y - start.y;
+    if (current.mode === 'move') {
+      onChange({ ...item, offset: getOverlayOffset(item, { ...box, x: box.x + dx, y: box.y + dy }, target) });
+      return;
+    }
+    // Resizing keeps the top-left corner in place and the proportions fixed
+    const size = Math.max(MIN_OVERLAY_SIZE, Math.min(MAX_OVERLAY_SIZE, item.size * Math.max(1, box.width + dx) / box.width));
+    const ratio = size / item.size;
+    const resized = { ...box, width: box.width * ratio, height: box.height * ratio };
+    onChange({ ...item, size, offset: getOverlayOffset(item, resized, target) });
+  };
+
+  const handlePointerEnd = (e: React.PointerEvent<SVGGElement>) => {
+    if (!drag.current) return;
+    e.stopPropagation();
+    drag.current = null;
+  };
+
+  return (
+    <svg
+      ref={svgRef}
+      className="absolute inset-0 w-full h-full pointer-events-none"
+      viewBox={`0 0 ${target.width} ${target.height}`}
+      preserveAspectRatio="none"
+      aria-hidden="true"
+    >
+      {template.items.map(item => {
+        const box = getOverlayBox(ctx, item, target);
+        const isSelected = item.id === selectedId;
+        return (
+          <g key={item.id} onPointerMove={handlePointerMove} onPointerUp={handlePointerEnd} onPointerCancel={handlePointerEnd}>
+            <rect
+              x={box.x}
+              y={box.y}
+              width={box.width}
+              height={box.height}
+              fill="rgba(56, 189, 248, 0.1)"
+              stroke={isSelected ? '#38bdf8' : 'rgba(255, 255, 255, 0.75)'}
+              strokeWidth={1}
+              strokeDasharray="4 3"
+              vectorEffect="non-scaling-stroke"
+              className="pointer-events-auto cursor-move"
+              onPointerDown={(e) => handlePointerDown(e, item, 'move')}
+            />
+            <rect
+              x={box.x + box.width - handleSize / 2}
+              y={box.y + box.height - handleSize / 2}
+              width={handleSize}
+              height={handleSize}
+              fill={isSelected ? '#38bdf8' : '#ffffff'}
+              className="pointer-events-auto cursor-nwse-resize"
+              onPointerDown={(e) => handlePointerDown(e, item, 'resize')}
+            />
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+export default OverlayEditor;
@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import type { Alignment, FitMode, FitTransform, ImageDimensions, ImageTransform, ViewState } from '../types';
+import { MAX_ZOOM, MIN_ZOOM, getAlignedPan, getFitZoom, getStraightenScale } from '../utils/geometry';
+import { t, type MessageKey } from '../utils/i18n';
+
+interface PlacementPanelProps {
+  /** The dimensions of the oriented source image. */
+  source: ImageDimensions;
+  target: ImageDimensions;
+  fit: FitTransform;
+  transform: ImageTransform;
+  view: ViewState;
+  onChange: (view: ViewState) => void;
+}
+
+const inputClasses = 'bg-slate-900 border border-slate-600 rounded-md px-2 py-1 text-slate-200 focus:outline-none focus:ring-2 focus:ring-sky-500';
+const buttonClasses = 'px-3 py-1 rounded-md bg-slate-700 text-slate-200 hover:bg-slate-600';
+
+const ALIGNMENTS: { alignment: Alignment; label: MessageKey }[] = [
+  { alignment: 'left', label: 'placement.left' },
+  { alignment: 'center', label: 'placement.center' },
+  { alignment: 'right', label: 'placement.right' },
+  { alignment: 'top', label: 'placement.top' },
+  { alignment: 'middle', label: 'placement.middle' },
+  { alignment: 'bottom', label: 'placement.bottom' },
+];
+
+const FIT_MODES: { mode: FitMode; label: MessageKey }[] = [
+  { mode: 'width', label: 'placement.fitWidth' },
+  { mode: 'height', label: 'placement.fitHeight' },
+  { mode: 'cover', label: 'placement.fitCover' },
+];
+
+interface NumberFieldProps {
+  value: number;
+  /** Decimal places shown when the field isn't being edited. */
+  digits: number;
+  step: number;
+  onCommit: (value: number) => void;
+  label: string;
+}
+
+/**
+ * A number input that follows `value` until focused, and reports the typed
+ * number on Enter or blur, so clamping doesn't fight half-typed values.
+ */
+const NumberField: React.FC<NumberFieldProps> = ({ value, digits, step, onCommit, label }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const commit = () => {
+    if (draft === null) return;
+    const number = Number(draft);
+    if (draft.trim() && Number.isFinite(number)) onCommit(number);
+    setDraft(null);
+  };
+
+  return (
+    <input
+      type="number"
+      step={step}
+      value={draft ?? value.toFixed(digits)}
+      onFocus={() => setDraft(value.toFixed(digits))}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') commit();
+        if (e.key === 'Escape') setDraft(null);
+      }}
+      className={`${inputClasses} w-24`}
+      aria-label={label}
+    />
+  );
+};
+
+const PlacementPanel: React.FC<PlacementPanelProps> = ({ source, target, fit, transform, view, onChange }) => {
+  // Output pixels per source pixel at zoom 1
+  const baseScale = fit.scale * getStraightenScale(source, transform);
+  const scale = baseScale * view.zoom;
+
+  const setScale = (nextScale: number) => {
+    if (nextScale <= 0) return;
+    onChange({ ...view, zoom: Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, nextScale / baseScale)) });
+  };
+
+  // The fit mode the current zoom matches, if any
+  const currentFit = FIT_MODES.find(({ mode }) => Math.abs(getFitZoom(source, target, fit, transform, mode) - view.zoom) < 1e-3)?.mode ?? '';
+
+  return (
+    <div className="flex flex-col gap-3 text-sm text-slate-400 bg-slate-900/50 border border-slate-700 rounded-lg p-4">
+      <div className="flex flex-wrap items-center gap-4">
+        <label className="flex items-center gap-2">
+          <span>{t('placement.scale')}</span>
+          <NumberField value={scale * 100} digits={1} step={1} onCommit={(percent) => setScale(percent / 100)} label={t('placement.scalePercent')} />
+          <span>%</span>
+        </label>
+        <label className="flex items-center gap-2">
+          <span>{t('placement.ratio')}</span>
+          <NumberField value={1 / scale} digits={3} step={0.01} onCommit={(ratio) => ratio > 0 && setScale(1 / ratio)} label={t('placement.ratio')} />
+        </label>
+      </div>
+      <div className="flex flex-wrap items-center gap-4">
+        <label className="flex items-center gap-2">
+          <span>{t('placement.offsetX')}</span>
+          <NumberField value={view.pan.x} digits={1} step={1} onCommit={(x) => onChange({ ...view, pan: { ...view.pan, x } })} label={t('placement.offsetXLabel')} />
+        </label>
+        <label className="flex items-center gap-2">
+          <span>Y</span>
+          <NumberField value={view.pan.y} digits={1} step={1} onCommit={(y) => onChange({ ...view, pan: { ...view.pan, y } })} label={t('placement.offsetYLabel')} />
+          <span>px</span>
+        </label>
+        <select
+          value={currentFit}
+          onChange={(e) => {
+            const mode = e.target.value as FitMode;
+            if (mode) onChange({ zoom: getFitZoom(source, target, fit, transform, mode), pan: { x: 0, y: 0 } });
+          }}
+          className={inputClasses}
+          aria-label={t('placement.fitMode')}
+        >
+          <option value="" disabled>{t('placement.fitTo')}</option>
+          {FIT_MODES.map(({ mode, label }) => (
+            <option key={mode} value={mode}>{t(label)}</option>
+          ))}
+        </select>
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <span>{t('placement.align')}</span>
+        {ALIGNMENTS.map(({ alignment, label }) => (
+          <button
+            key={alignment}
+            type="button"
+            className={buttonClasses}
+            onClick={() => onChange({ ...view, pan: getAlignedPan(source, target, fit, view.zoom, view.pan, transform, alignment) })}
+          >
+            {t(label)}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default PlacementPanel;
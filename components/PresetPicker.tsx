@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import type { FramePreset, OutputPreset } from '../types';
+import { createCustomPreset, describePresetSize, getPresetName, MAX_PRESET_DIMENSION } from '../utils/presets';
+import { t } from '../utils/i18n';
+
+interface PresetPickerProps {
+  presets: OutputPreset[];
+  selectedId: string;
+  onSelect: (id: string) => void;
+  onAddCustom: (preset: FramePreset) => void;
+  onDeleteCustom: (id: string) => void;
+}
+
+const inputClasses = 'bg-slate-900 border border-slate-600 rounded-md px-2 py-1 text-slate-200 focus:outline-none focus:ring-2 focus:ring-sky-500';
+
+const PresetPicker: React.FC<PresetPickerProps> = ({ presets, selectedId, onSelect, onAddCustom, onDeleteCustom }) => {
+  const [isAdding, setIsAdding] = useState(false);
+  const [name, setName] = useState('');
+  const [width, setWidth] = useState('1040');
+  const [height, setHeight] = useState('1040');
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const selected = presets.find(p => p.id === selectedId);
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const preset = createCustomPreset(name, Number(width), Number(height));
+    if (!preset) {
+      setFormError(t('preset.invalidSize', { max: MAX_PRESET_DIMENSION }));
+      return;
+    }
+    onAddCustom(preset);
+    setIsAdding(false);
+    setName('');
+    setFormError(null);
+  };
+
+  return (
+    <div className="flex flex-col gap-3 text-sm text-slate-400">
+      <div className="flex flex-wrap items-center justify-center gap-3">
+        <label htmlFor="preset-select" className="whitespace-nowrap">{t('preset.label')}</label>
+        <select
+          id="preset-select"
+          value={selectedId}
+          onChange={(e) => onSelect(e.target.value)}
+          className={inputClasses}
+        >
+          {presets.map(p => (
+            <option key={p.id} value={p.id}>
+              {getPresetName(p)} ({describePresetSize(p)})
+            </option>
+          ))}
+        </select>
+        {selected?.custom && (
+          <button type="button" onClick={() => onDeleteCustom(selected.id)} className="text-red-400 hover:text-red-300">
+            {t('preset.delete')}
+          </button>
+        )}
+        <button type="button" onClick={() => setIsAdding(!isAdding)} className="text-sky-400 hover:text-sky-300">
+          {isAdding ? t('common.cancel') : t('preset.add')}
+        </button>
+      </div>
+      {isAdding && (
+        <form onSubmit={handleAdd} className="flex flex-wrap items-center justify-center gap-2">
+          <input
+            type="text"
+            placeholder={t('preset.name')}
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className={inputClasses}
+            aria-label={t('preset.name')}
+          />
+          <input
+            type="number"
+            min="1"
+            max={MAX_PRESET_DIMENSION}
+            value={width}
+            onChange={(e) => setWidth(e.target.value)}
+            className={`${inputClasses} w-24`}
+            aria-label={t('preset.width')}
+          />
+          <span>x</span>
+          <input
+            type="number"
+            min="1"
+            max={MAX_PRESET_DIMENSION}
+            value={height}
+            onChange={(e) => setHeight(e.target.value)}
+            className={`${inputClasses} w-24`}
+            aria-label={t('preset.height')}
+          />
+          <button type="submit" className="px-3 py-1 rounded-md bg-sky-600 text-white hover:bg-sky-500">
+            {t('common.save')}
+          </button>
+          {formError && <p className="w-full text-center text-red-400">{formError}</p>}
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default PresetPicker;
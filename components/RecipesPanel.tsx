@@ -0,0 +1,126 @@
+import React, { useRef, useState } from 'react';
+import type { EditRecipe } from '../types';
+import { parseRecipe, serializeRecipe } from '../utils/recipes';
+import { describePresetSize } from '../utils/presets';
+import { OUTPUT_FORMATS } from '../utils/encode';
+import { downloadBlob } from '../utils/download';
+import { formatNumber, t } from '../utils/i18n';
+
+interface RecipesPanelProps {
+  /** The saved favorite recipes. */
+  recipes: EditRecipe[];
+  onRecipesChange: (recipes: EditRecipe[]) => void;
+  /** Captures the current settings and framing under a name. */
+  onCreate: (name: string) => EditRecipe;
+  /** Applies a recipe, returning a warning if part of it couldn't be applied. */
+  onApply: (recipe: EditRecipe) => string | null;
+}
+
+const inputClasses = 'bg-slate-900 border border-slate-600 rounded-md px-2 py-1 text-slate-200 focus:outline-none focus:ring-2 focus:ring-sky-500';
+const buttonClasses = 'px-3 py-1 rounded-md bg-slate-700 text-slate-200 hover:bg-slate-600';
+
+const downloadRecipe = (recipe: EditRecipe) => {
+  const blob = new Blob([serializeRecipe(recipe)], { type: 'application/json' });
+  downloadBlob(blob, `${recipe.name.replace(/[\\/:*?"<>|]+/g, '_')}.recipe.json`);
+};
+
+const RecipesPanel: React.FC<RecipesPanelProps> = ({ recipes, onRecipesChange, onCreate, onApply }) => {
+  const [name, setName] = useState('');
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // A recipe saved under an existing name replaces it
+  const addRecipe = (recipe: EditRecipe) => {
+    onRecipesChange([...recipes.filter(r => r.name !== recipe.name), recipe]);
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    const recipe = onCreate(name);
+    addRecipe(recipe);
+    setName('');
+    setMessage({ text: t('recipes.saved', { name: recipe.name }), isError: false });
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const { recipe, error } = parseRecipe(await file.text());
+      if (!recipe) {
+        setMessage({ text: t('recipes.importFailed', { name: file.name, error: error ?? '' }), isError: true });
+        return;
+      }
+      addRecipe(recipe);
+      const warning = onApply(recipe);
+      setMessage(warning
+        ? { text: warning, isError: true }
+        : { text: t('recipes.imported', { name: recipe.name }), isError: false });
+    } catch (err) {
+      console.error("Error importing recipe:", err);
+      setMessage({ text: t('common.readFailed', { name: file.name }), isError: true });
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-3 text-sm text-slate-400 bg-slate-900/50 border border-slate-700 rounded-lg p-4">
+      <form onSubmit={handleSave} className="flex flex-wrap items-center gap-3">
+        <span>{t('recipes.title')}</span>
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder={t('recipes.name')}
+          className={`${inputClasses} w-40`}
+          aria-label={t('recipes.name')}
+        />
+        <button type="submit" className={buttonClasses}>{t('recipes.save')}</button>
+        <button type="button" className={buttonClasses} onClick={() => downloadRecipe(onCreate(name))}>
+          {t('recipes.downloadJson')}
+        </button>
+        <button type="button" className="text-sky-400 hover:text-sky-300" onClick={() => fileInputRef.current?.click()}>
+          {t('recipes.import')}
+        </button>
+        <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImport} />
+      </form>
+      {recipes.length > 0 && (
+        <ul className="flex flex-col gap-2">
+          {recipes.map(recipe => (
+            <li key={recipe.name} className="flex flex-wrap items-center gap-3">
+              <span className="text-slate-200">{recipe.name}</span>
+              <span>
+                {describePresetSize(recipe.preset)} · {t('common.zoom', { zoom: formatNumber(recipe.zoom, 2) })} · {OUTPUT_FORMATS[recipe.export.format].label}
+              </span>
+              <button
+                type="button"
+                className={buttonClasses}
+                onClick={() => {
+                  const warning = onApply(recipe);
+                  setMessage(warning ? { text: warning, isError: true } : null);
+                }}
+              >
+                {t('recipes.apply')}
+              </button>
+              <button type="button" className="text-sky-400 hover:text-sky-300" onClick={() => downloadRecipe(recipe)}>
+                {t('recipes.download')}
+              </button>
+              <button
+                type="button"
+                className="text-red-400 hover:text-red-300"
+                onClick={() => onRecipesChange(recipes.filter(r => r !== recipe))}
+              >
+                {t('common.delete')}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {message && (
+        <p className={message.isError ? 'text-red-400' : 'text-emerald-400'} role="status">{message.text}</p>
+      )}
+    </div>
+  );
+};
+
+export default RecipesPanel;
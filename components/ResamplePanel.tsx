@@ -0,0 +1,46 @@
+import React from 'react';
+import type { ResampleFilter, ResampleSettings } from '../types';
+import { RESAMPLE_FILTERS } from '../utils/resample';
+import { t } from '../utils/i18n';
+
+interface ResamplePanelProps {
+  settings: ResampleSettings;
+  onChange: (settings: ResampleSettings) => void;
+}
+
+const inputClasses = 'bg-slate-900 border border-slate-600 rounded-md px-2 py-1 text-slate-200 focus:outline-none focus:ring-2 focus:ring-sky-500';
+
+const ResamplePanel: React.FC<ResamplePanelProps> = ({ settings, onChange }) => (
+  <div className="flex flex-wrap items-center gap-4 text-sm text-slate-400 bg-slate-900/50 border border-slate-700 rounded-lg p-4">
+    <label className="flex items-center gap-2">
+      <span>{t('resample.title')}</span>
+      <select
+        value={settings.filter}
+        onChange={(e) => onChange({ ...settings, filter: e.target.value as ResampleFilter })}
+        className={inputClasses}
+      >
+        {RESAMPLE_FILTERS.map(({ filter, label }) => (
+          <option key={filter} value={filter}>{t(label)}</option>
+        ))}
+      </select>
+    </label>
+    <label className="flex items-center gap-2">
+      <span className="whitespace-nowrap">{t('resample.maxUpscale')}</span>
+      <input
+        type="number"
+        min="1"
+        step="0.1"
+        value={settings.maxUpscale}
+        onChange={(e) => {
+          const value = Number(e.target.value);
+          if (value >= 1) onChange({ ...settings, maxUpscale: value });
+        }}
+        className={`${inputClasses} w-20`}
+        aria-label={t('resample.maxUpscaleRatio')}
+      />
+      <span>{t('resample.times')}</span>
+    </label>
+  </div>
+);
+
+export default ResamplePanel;
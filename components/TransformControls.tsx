@@ -0,0 +1,76 @@
+import React from 'react';
+import type { ImageTransform } from '../types';
+import { DEFAULT_TRANSFORM, MAX_STRAIGHTEN, hasQuarterTurnOrFlip, rotateQuarter } from '../utils/transform';
+import { formatNumber, t } from '../utils/i18n';
+
+interface TransformControlsProps {
+  transform: ImageTransform;
+  onChange: (transform: ImageTransform) => void;
+}
+
+const buttonClasses = 'px-3 py-1 rounded-md bg-slate-700 text-slate-200 hover:bg-slate-600';
+const toggleClasses = (active: boolean) =>
+  `px-3 py-1 rounded-md ${active ? 'bg-sky-600 text-white' : 'bg-slate-700 text-slate-200 hover:bg-slate-600'}`;
+
+const TransformControls: React.FC<TransformControlsProps> = ({ transform, onChange }) => (
+  <div className="flex flex-col gap-3 text-slate-400 text-sm">
+    <div className="flex flex-wrap items-center justify-center gap-2">
+      <button type="button" className={buttonClasses} onClick={() => onChange(rotateQuarter(transform, -1))} aria-label={t('transform.rotateLeft')}>
+        ↺ {t('transform.rotateLeft')}
+      </button>
+      <button type="button" className={buttonClasses} onClick={() => onChange(rotateQuarter(transform, 1))} aria-label={t('transform.rotateRight')}>
+        ↻ {t('transform.rotateRight')}
+      </button>
+      <button
+        type="button"
+        className={toggleClasses(transform.flipH)}
+        onClick={() => onChange({ ...transform, flipH: !transform.flipH })}
+        aria-pressed={transform.flipH}
+      >
+        {t('transform.flipH')}
+      </button>
+      <button
+        type="button"
+        className={toggleClasses(transform.flipV)}
+        onClick={() => onChange({ ...transform, flipV: !transform.flipV })}
+        aria-pressed={transform.flipV}
+      >
+        {t('transform.flipV')}
+      </button>
+      <button
+        type="button"
+        className={`${buttonClasses} disabled:opacity-50 disabled:cursor-not-allowed`}
+        onClick={() => onChange({ ...DEFAULT_TRANSFORM, autoCrop: transform.autoCrop })}
+        disabled={!hasQuarterTurnOrFlip(transform) && transform.straighten === 0}
+      >
+        {t('transform.reset')}
+      </button>
+    </div>
+    <div className="flex items-center gap-3 px-1">
+      <label htmlFor="straighten-slider" className="whitespace-nowrap">{t('transform.straighten', { angle: formatNumber(transform.straighten, 1) })}</label>
+      <input
+        id="straighten-slider"
+        type="range"
+        min={-MAX_STRAIGHTEN}
+        max={MAX_STRAIGHTEN}
+        step="0.1"
+        value={transform.straighten}
+        onChange={(e) => onChange({ ...transform, straighten: Number(e.target.value) })}
+        onDoubleClick={() => onChange({ ...transform, straighten: 0 })}
+        className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-sky-500"
+        aria-label={t('transform.straightenSlider')}
+      />
+      <label className="flex items-center gap-2 whitespace-nowrap">
+        <input
+          type="checkbox"
+          checked={transform.autoCrop}
+          onChange={(e) => onChange({ ...transform, autoCrop: e.target.checked })}
+          className="accent-sky-500"
+        />
+        <span>{t('transform.autoCrop')}</span>
+      </label>
+    </div>
+  </div>
+);
+
+export default TransformControls;
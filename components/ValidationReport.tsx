@@ -0,0 +1,62 @@
+import React from 'react';
+import type { FileReport, ValidationStatus } from '../types';
+import { IMAGE_TYPES } from '../utils/validation';
+import { formatDimensions, formatFileSize } from '../utils/format';
+import { t, type MessageKey } from '../utils/i18n';
+import Button from './Button';
+
+interface ValidationReportProps {
+  reports: FileReport[];
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const STATUS_STYLES: Record<ValidationStatus, { label: MessageKey; className: string }> = {
+  pass: { label: 'validation.pass', className: 'text-emerald-300 bg-emerald-900/40 border-emerald-500/50' },
+  warn: { label: 'validation.warn', className: 'text-amber-300 bg-amber-900/40 border-amber-500/50' },
+  fail: { label: 'validation.fail', className: 'text-red-300 bg-red-900/40 border-red-500/50' },
+};
+
+const ValidationReport: React.FC<ValidationReportProps> = ({ reports, onConfirm, onCancel }) => {
+  const accepted = reports.filter(report => report.status !== 'fail').length;
+
+  return (
+    <div className="flex flex-col gap-4">
+      <h3 className="text-lg font-semibold text-slate-300">{t('validation.title')}</h3>
+      <ul className="flex flex-col gap-2 text-sm">
+        {reports.map(({ facts, status, issues }, index) => (
+          <li key={index} className="flex flex-col gap-1 bg-slate-900/50 border border-slate-700 rounded-lg p-3">
+            <div className="flex flex-wrap items-center gap-3">
+              <span className={`rounded-full border px-2 py-0.5 ${STATUS_STYLES[status].className}`}>
+                {t(STATUS_STYLES[status].label)}
+              </span>
+              <span className="text-slate-200 truncate" title={facts.file.name}>{facts.file.name}</span>
+              <span className="text-slate-400">
+                {formatFileSize(facts.file.size)}
+                {facts.type && ` · ${IMAGE_TYPES[facts.type].label}`}
+                {facts.dimensions && ` · ${formatDimensions(facts.dimensions)}`}
+              </span>
+            </div>
+            {issues.length > 0 && (
+              <ul className="list-disc pl-6">
+                {issues.map((issue, i) => (
+                  <li key={i} className={issue.level === 'fail' ? 'text-red-400' : 'text-amber-400'}>{issue.message}</li>
+                ))}
+              </ul>
+            )}
+          </li>
+        ))}
+      </ul>
+      <div className="flex flex-col sm:flex-row items-center justify-center gap-4">
+        <Button onClick={onConfirm} disabled={accepted === 0}>
+          {t('validation.confirm', { accepted, total: reports.length })}
+        </Button>
+        <Button onClick={onCancel} variant="secondary">
+          {t('common.cancel')}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default ValidationReport;
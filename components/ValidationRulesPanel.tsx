@@ -0,0 +1,128 @@
+import React from 'react';
+import type { ImageType, OutputPreset, RuleLevel, ValidationRules } from '../types';
+import { IMAGE_TYPES } from '../utils/validation';
+import { getPresetName } from '../utils/presets';
+import { t, type MessageKey } from '../utils/i18n';
+
+interface ValidationRulesPanelProps {
+  rules: ValidationRules;
+  onChange: (rules: ValidationRules) => void;
+  /** The current output preset, whose height range can be copied into the aspect rule. */
+  preset: OutputPreset;
+}
+
+const inputClasses = 'bg-slate-900 border border-slate-600 rounded-md px-2 py-1 text-slate-200 focus:outline-none focus:ring-2 focus:ring-sky-500';
+
+const RULE_LEVELS: { level: RuleLevel; label: MessageKey }[] = [
+  { level: 'off', label: 'validation.off' },
+  { level: 'warn', label: 'validation.warn' },
+  { level: 'fail', label: 'validation.fail' },
+];
+
+const parseOptional = (value: string): number | null => {
+  const number = Number(value);
+  return value && number > 0 ? number : null;
+};
+
+const LevelSelect: React.FC<{ value: RuleLevel; onChange: (level: RuleLevel) => void; label: string }> = ({ value, onChange, label }) => (
+  <select value={value} onChange={(e) => onChange(e.target.value as RuleLevel)} className={inputClasses} aria-label={label}>
+    {RULE_LEVELS.map(({ level, label }) => (
+      <option key={level} value={level}>{t(label)}</option>
+    ))}
+  </select>
+);
+
+const ValidationRulesPanel: React.FC<ValidationRulesPanelProps> = ({ rules, onChange, preset }) => {
+  const toggleType = (type: ImageType, allowed: boolean) => {
+    const allowedTypes = allowed ? [...rules.allowedTypes, type] : rules.allowedTypes.filter(allowedType => allowedType !== type);
+    onChange({ ...rules, allowedTypes });
+  };
+
+  return (
+    <details className="text-sm text-slate-400 bg-slate-900/50 border border-slate-700 rounded-lg p-4">
+      <summary className="cursor-pointer text-slate-300">{t('validation.rules')}</summary>
+      <div className="flex flex-col gap-3 mt-3">
+        <label className="flex items-center gap-2">
+          <span>{t('validation.maxFileSize')}</span>
+          <input
+            type="number"
+            min="1"
+            placeholder={t('common.unlimited')}
+            value={rules.maxFileSizeMB ?? ''}
+            onChange={(e) => onChange({ ...rules, maxFileSizeMB: parseOptional(e.target.value) })}
+            className={`${inputClasses} w-24`}
+            aria-label={t('validation.maxFileSizeMB')}
+          />
+          <span>MB</span>
+        </label>
+        <div className="flex flex-wrap items-center gap-3">
+          <span>{t('validation.allowedTypes')}</span>
+          {(Object.keys(IMAGE_TYPES) as ImageType[]).map(type => (
+            <label key={type} className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={rules.allowedTypes.includes(type)}
+                onChange={(e) => toggleType(type, e.target.checked)}
+                className="accent-sky-500"
+              />
+              <span>{IMAGE_TYPES[type].label}</span>
+            </label>
+          ))}
+        </div>
+        <label className="flex items-center gap-2">
+          <span>{t('validation.resolution')}</span>
+          <LevelSelect
+            value={rules.resolutionLevel}
+            onChange={(resolutionLevel) => onChange({ ...rules, resolutionLevel })}
+            label={t('validation.resolution')}
+          />
+        </label>
+        <div className="flex flex-wrap items-center gap-2">
+          <span>{t('validation.aspect')}</span>
+          <LevelSelect
+            value={rules.aspectLevel}
+            onChange={(aspectLevel) => onChange({ ...rules, aspectLevel })}
+            label={t('validation.aspect')}
+          />
+          <input
+            type="number"
+            min="0.01"
+            step="0.01"
+            placeholder={t('validation.min')}
+            value={rules.minAspect ?? ''}
+            onChange={(e) => onChange({ ...rules, minAspect: parseOptional(e.target.value) })}
+            className={`${inputClasses} w-20`}
+            aria-label={t('validation.minAspect')}
+          />
+          <span>{t('validation.to')}</span>
+          <input
+            type="number"
+            min="0.01"
+            step="0.01"
+            placeholder={t('validation.max')}
+            value={rules.maxAspect ?? ''}
+            onChange={(e) => onChange({ ...rules, maxAspect: parseOptional(e.target.value) })}
+            className={`${inputClasses} w-20`}
+            aria-label={t('validation.maxAspect')}
+          />
+          {preset.kind === 'fixed-width' && (
+            <button
+              type="button"
+              onClick={() => onChange({
+                ...rules,
+                aspectLevel: rules.aspectLevel === 'off' ? 'fail' : rules.aspectLevel,
+                minAspect: preset.minHeight / preset.width,
+                maxAspect: preset.maxHeight / preset.width,
+              })}
+              className="text-sky-400 hover:text-sky-300"
+            >
+              {t('validation.usePresetRange', { name: getPresetName(preset) })}
+            </button>
+          )}
+        </div>
+      </div>
+    </details>
+  );
+};
+
+export default ValidationRulesPanel;
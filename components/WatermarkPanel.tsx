@@ -0,0 +1,267 @@
+import React, { useRef, useState } from 'react';
+import type { OverlayAnchor, OverlayItem, WatermarkTemplate } from '../types';
+import { MAX_OVERLAY_SIZE, MIN_OVERLAY_SIZE, OVERLAY_ANCHORS, OVERLAY_FONTS, createLogoOverlay, createTextOverlay } from '../utils/overlay';
+import { t, type MessageKey } from '../utils/i18n';
+
+interface WatermarkPanelProps {
+  template: WatermarkTemplate;
+  onChange: (template: WatermarkTemplate) => void;
+  /** The item being edited, or null. */
+  selectedId: string | null;
+  onSelect: (id: string | null) => void;
+  /** Whether dragging on the preview moves and resizes items instead of panning. */
+  isPlacing: boolean;
+  onPlacingChange: (placing: boolean) => void;
+  /** Set when the template couldn't be stored, so it won't survive a reload. */
+  saveFailed: boolean;
+}
+
+const inputClasses = 'bg-slate-900 border border-slate-600 rounded-md px-2 py-1 text-slate-200 focus:outline-none focus:ring-2 focus:ring-sky-500';
+const buttonClasses = 'px-3 py-1 rounded-md bg-slate-700 text-slate-200 hover:bg-slate-600';
+const sliderClasses = 'w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-sky-500';
+const toggleClasses = (active: boolean) =>
+  `px-3 py-1 rounded-md ${active ? 'bg-sky-600 text-white' : 'bg-slate-700 text-slate-200 hover:bg-slate-600'}`;
+
+const ANCHOR_LABELS: Record<OverlayAnchor, MessageKey> = {
+  'top-left': 'watermark.anchor.topLeft',
+  'top': 'watermark.anchor.top',
+  'top-right': 'watermark.anchor.topRight',
+  'left': 'watermark.anchor.left',
+  'center': 'watermark.anchor.center',
+  'right': 'watermark.anchor.right',
+  'bottom-left': 'watermark.anchor.bottomLeft',
+  'bottom': 'watermark.anchor.bottom',
+  'bottom-right': 'watermark.anchor.bottomRight',
+};
+
+const describeItem = (item: OverlayItem): string =>
+  item.kind === 'logo' ? t('watermark.logo') : t('watermark.textItem', { text: item.text.trim() || '…' });
+
+const WatermarkPanel: React.FC<WatermarkPanelProps> = ({ template, onChange, selectedId, onSelect, isPlacing, onPlacingChange, saveFailed }) => {
+  const [logoError, setLogoError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const selected = template.items.find(item => item.id === selectedId) ?? null;
+
+  const addItem = (item: OverlayItem) => {
+    onChange({ enabled: true, items: [...template.items, item] });
+    onSelect(item.id);
+  };
+
+  const updateSelected = (changes: Partial<OverlayItem>) => {
+    onChange({
+      ...template,
+      items: template.items.map(item => item.id === selectedId ? { ...item, ...changes } as OverlayItem : item),
+    });
+  };
+
+  const removeItem = (id: string) => {
+    onChange({ ...template, items: template.items.filter(item => item.id !== id) });
+    if (id === selectedId) onSelect(null);
+  };
+
+  const handleLogoFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      addItem(await createLogoOverlay(file));
+      setLogoError(null);
+    } catch (err) {
+      setLogoError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  // Switching anchors keeps the margins, but a centered axis starts centered
+  const handleAnchor = (anchor: OverlayAnchor) => {
+    if (!selected) return;
+    updateSelected({
+      anchor,
+      offset: {
+        x: anchor.includes('left') || anchor.includes('right') ? selected.offset.x : 0,
+        y: anchor.startsWith('top') || anchor.startsWith('bottom') ? selected.offset.y : 0,
+      },
+    });
+  };
+
+  return (
+    <div className="flex flex-col gap-3 text-sm text-slate-400 bg-slate-900/50 border border-slate-700 rounded-lg p-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={template.enabled}
+            onChange={(e) => onChange({ ...template, enabled: e.target.checked })}
+            className="accent-sky-500"
+          />
+          <span>{t('watermark.enable')}</span>
+        </label>
+        <button type="button" className={buttonClasses} onClick={() => addItem(createTextOverlay())}>
+          {t('watermark.addText')}
+        </button>
+        <button type="button" className={buttonClasses} onClick={() => fileInputRef.current?.click()}>
+          {t('watermark.addLogo')}
+        </button>
+        <input ref={fileInputRef} type="file" accept="image/*" className="hidden" onChange={handleLogoFile} />
+        {template.enabled && template.items.length > 0 && (
+          <button
+            type="button"
+            className={toggleClasses(isPlacing)}
+            onClick={() => onPlacingChange(!isPlacing)}
+            aria-pressed={isPlacing}
+          >
+            {t('watermark.place')}
+          </button>
+        )}
+      </div>
+      {isPlacing && template.enabled && (
+        <p>{t('watermark.placeHint')}</p>
+      )}
+      {template.items.length > 0 && (
+        <ul className="flex flex-col gap-2">
+          {template.items.map(item => (
+            <li key={item.id} className="flex flex-wrap items-center gap-3">
+              <button
+                type="button"
+                className={toggleClasses(item.id === selectedId)}
+                onClick={() => onSelect(item.id === selectedId ? null : item.id)}
+                aria-pressed={item.id === selectedId}
+              >
+                {describeItem(item)}
+              </button>
+              <button type="button" className="text-red-400 hover:text-red-300" onClick={() => removeItem(item.id)}>
+                {t('common.delete')}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {selected && (
+        <div className="flex flex-col gap-3 border-t border-slate-700 pt-3">
+          {selected.kind === 'text' && (
+            <div className="flex flex-wrap items-center gap-3">
+              <input
+                type="text"
+                value={selected.text}
+                onChange={(e) => updateSelected({ text: e.target.value })}
+                className={`${inputClasses} w-48`}
+                aria-label={t('watermark.text')}
+              />
+              <select
+                value={selected.font}
+                onChange={(e) => updateSelected({ font: e.target.value })}
+                className={inputClasses}
+                aria-label={t('watermark.font')}
+              >
+                {OVERLAY_FONTS.map(({ label, value }) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+              <label className="flex items-center gap-2">
+                <span>{t('watermark.color')}</span>
+                <input
+                  type="color"
+                  value={selected.color}
+                  onChange={(e) => updateSelected({ color: e.target.value })}
+                  className="w-10 h-8 bg-transparent cursor-pointer"
+                />
+              </label>
+              <label className="flex items-center gap-2">
+                <span>{t('watermark.strokeColor')}</span>
+                <input
+                  type="color"
+                  value={selected.strokeColor}
+                  onChange={(e) => updateSelected({ strokeColor: e.target.value })}
+                  className="w-10 h-8 bg-transparent cursor-pointer"
+                />
+              </label>
+            </div>
+          )}
+          {selected.kind === 'text' && (
+            <div className="flex items-center gap-3">
+              <label htmlFor="overlay-stroke" className="w-40 shrink-0">{t('watermark.strokeWidth', { value: Math.round(selected.strokeWidth * 100) })}</label>
+              <input
+                id="overlay-stroke"
+                type="range"
+                min={0}
+                max={0.3}
+                step={0.01}
+                value={selected.strokeWidth}
+                onChange={(e) => updateSelected({ strokeWidth: Number(e.target.value) })}
+                className={sliderClasses}
+              />
+            </div>
+          )}
+          <div className="flex items-center gap-3">
+            <label htmlFor="overlay-size" className="w-40 shrink-0">
+              {t(selected.kind === 'text' ? 'watermark.fontSize' : 'watermark.width', { value: Math.round(selected.size * 100) })}
+            </label>
+            <input
+              id="overlay-size"
+              type="range"
+              min={MIN_OVERLAY_SIZE}
+              max={MAX_OVERLAY_SIZE}
+              step={0.01}
+              value={selected.size}
+              onChange={(e) => updateSelected({ size: Number(e.target.value) })}
+              className={sliderClasses}
+            />
+          </div>
+          <div className="flex items-center gap-3">
+            <label htmlFor="overlay-opacity" className="w-40 shrink-0">{t('watermark.opacity', { value: Math.round(selected.opacity * 100) })}</label>
+            <input
+              id="overlay-opacity"
+              type="range"
+              min={0.05}
+              max={1}
+              step={0.05}
+              value={selected.opacity}
+              onChange={(e) => updateSelected({ opacity: Number(e.target.value) })}
+              className={sliderClasses}
+            />
+          </div>
+          <div className="flex flex-wrap items-start gap-4">
+            <div className="grid grid-cols-3 gap-1" role="group" aria-label={t('watermark.anchor')}>
+              {OVERLAY_ANCHORS.map(anchor => (
+                <button
+                  key={anchor}
+                  type="button"
+                  className={`w-6 h-6 rounded ${selected.anchor === anchor ? 'bg-sky-600' : 'bg-slate-700 hover:bg-slate-600'}`}
+                  onClick={() => handleAnchor(anchor)}
+                  aria-pressed={selected.anchor === anchor}
+                  aria-label={t(ANCHOR_LABELS[anchor])}
+                  title={t(ANCHOR_LABELS[anchor])}
+                />
+              ))}
+            </div>
+            <div className="flex flex-col gap-2">
+              {(['x', 'y'] as const).map(axis => (
+                <label key={axis} className="flex items-center gap-2">
+                  <span className="w-24">{axis === 'x' ? t('watermark.offsetX') : t('watermark.offsetY')}</span>
+                  <input
+                    type="number"
+                    step={0.5}
+                    value={Math.round(selected.offset[axis] * 1000) / 10}
+                    onChange={(e) => {
+                      if (e.target.value === '') return;
+                      updateSelected({ offset: { ...selected.offset, [axis]: Number(e.target.value) / 100 } });
+                    }}
+                    className={`${inputClasses} w-20`}
+                  />
+                </label>
+              ))}
+              <span>{t('watermark.units')}</span>
+            </div>
+          </div>
+        </div>
+      )}
+      {logoError && <p className="text-red-400" role="alert">{logoError}</p>}
+      {saveFailed && (
+        <p className="text-yellow-400" role="status">
+          {t('watermark.saveFailed')}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default WatermarkPanel;
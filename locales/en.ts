@@ -0,0 +1,299 @@
+import type { Catalog } from '../utils/i18n';
+
+const en: Catalog = {
+  language: 'en',
+  name: 'English',
+  messages: {
+    'common.cancel': 'Cancel',
+    'common.delete': 'Delete',
+    'common.hidden': 'Hidden',
+    'common.readFailed': 'Could not read {name}',
+    'common.save': 'Save',
+    'common.unlimited': 'Unlimited',
+    'common.zoom': 'Zoom {zoom}x',
+
+    'app.title': 'Image Resize Tool',
+    'app.intro': 'Resize images to fit a',
+    'app.introSize': '{size} pixel',
+    'app.introDrag': 'frame. Drag to move and zoom the image before saving.',
+    'app.credit': 'Made by {author}',
+    'app.language': 'Language',
+    'app.inspecting': 'Checking files...',
+    'app.processing': 'Processing image...',
+    'app.wait': 'Please wait a moment',
+    'app.error': 'Something went wrong',
+    'app.removeFromQueue': 'Remove this image from the queue',
+    'app.retry': 'Try again',
+    'app.original': 'Original',
+    'app.resized': 'Resized',
+    'app.startOver': 'Resize another image',
+
+    'canvas.label': 'Framing area {size}, zoom {zoom}x',
+    'canvas.keyboardHint': 'Use the arrow keys to move the image, hold Shift to move further, + and - to zoom, 0 to reset to fit the frame, and Ctrl+Z or Ctrl+Shift+Z to undo or redo',
+    'canvas.zoom': 'Zoom ({zoom}x)',
+    'canvas.zoomSlider': 'Zoom slider',
+    'canvas.compare': 'Compare before/after',
+    'canvas.compareSplit': 'Comparison split',
+    'canvas.loupe': 'Output loupe',
+    'canvas.loupeOff': 'Off',
+    'canvas.undo': 'Undo',
+    'canvas.redo': 'Redo',
+    'canvas.resetView': 'Reset to fit frame',
+    'canvas.upscaleWarning': 'Enlarged {scale}x from the original; the image may look soft',
+
+    'compare.before': 'Before',
+    'compare.after': 'After',
+    'loupe.encoding': 'Encoding...',
+
+    'dropzone.click': 'Click to upload',
+    'dropzone.drag': 'or drag and drop files',
+    'dropzone.formats': 'PNG, JPG and WEBP files are supported, several at once',
+    'dropzone.paste': 'or press Ctrl+V to paste from the clipboard, or drag an image from another tab',
+
+    'queue.previous': 'Previous',
+    'queue.position': 'Image {index} of {total}',
+    'queue.next': 'Next',
+    'queue.item': 'Image {index}: {name}',
+    'queue.remove': 'Remove {name}',
+    'queue.add': '+ Add images',
+
+    'preset.square-1040': 'Square',
+    'preset.width-1040': '1040 wide, keep aspect ratio',
+    'preset.portrait-1080x1350': 'Portrait 4:5',
+    'preset.link-1200x628': 'Link preview',
+    'preset.banner-1040x520': 'Banner 2:1',
+    'preset.label': 'Output size',
+    'preset.delete': 'Delete this size',
+    'preset.add': 'Add custom size',
+    'preset.name': 'Size name',
+    'preset.width': 'Preset width',
+    'preset.height': 'Preset height',
+    'preset.invalidSize': 'Width and height must be whole numbers from 1 to {max} pixels',
+    'preset.heightOutOfRange': 'The resulting image height is {height}px, outside the allowed range ({min}px to {max}px)',
+
+    'outputs.title': 'Extra sizes exported together',
+    'outputs.add': '+ Add size',
+    'outputs.size': 'Output size',
+    'outputs.framing': 'Output framing',
+    'outputs.inherit': 'Same framing as the main size',
+    'outputs.own': 'Separate framing',
+    'outputs.editing': 'Framing',
+    'outputs.edit': 'Frame',
+    'outputs.downloadAs': 'Download as',
+    'outputs.files': 'Separate files',
+    'outputs.zip': 'ZIP file',
+
+    'export.format': 'File format',
+    'export.quality': 'quality {quality}%',
+    'export.qualitySlider': 'Quality slider',
+    'export.maxSize': 'Max size',
+    'export.maxSizeKB': 'Maximum file size in KB',
+    'export.estimating': 'Estimating file size...',
+    'export.estimate': 'Estimated file size {size}',
+    'export.overBudget': 'over the size limit',
+    'export.download': 'Download image',
+    'export.copy': 'Copy result',
+    'export.copied': 'Image copied to the clipboard',
+    'export.downloadAll': 'Download all ({count}) as ZIP',
+    'export.zipProgress': 'Creating ZIP file ({done}/{total})...',
+    'export.skippedSizes': 'Skipped sizes that could not be produced: {sizes}',
+    'export.skippedImages': 'Skipped {count} images that could not be resized: {names}',
+
+    'encode.failed': 'Could not encode the image',
+    'encode.unsupported': 'This browser cannot save {format} files',
+    'decode.tooLarge': 'The image is {size} ({megapixels} megapixels), over the {limit} megapixel limit the browser can safely decode. Please shrink it in another program first',
+    'decode.failed': 'Could not decode the {size} image ({megapixels} megapixels). The file may be damaged, or the browser may not have enough memory for an image this size',
+    'decode.readFailed': 'An error occurred while reading the file',
+    'decode.notImage': 'Could not load the image. The file may be damaged or not an image',
+    'import.blocked': '{host} does not allow other websites to load this image (CORS), or could not be reached. Please save the image and drop the file here instead',
+    'import.httpError': 'Could not load the image from {host} (HTTP {status})',
+    'clipboard.unsupported': 'This browser cannot copy images to the clipboard',
+    'clipboard.denied': 'Could not copy the image to the clipboard. Please allow clipboard access and try again',
+
+    'transform.rotateLeft': 'Rotate left',
+    'transform.rotateRight': 'Rotate right',
+    'transform.flipH': 'Flip horizontally',
+    'transform.flipV': 'Flip vertically',
+    'transform.reset': 'Reset rotation',
+    'transform.straighten': 'Straighten ({angle}°)',
+    'transform.straightenSlider': 'Straighten slider',
+    'transform.autoCrop': 'Auto crop',
+
+    'placement.left': 'Align left',
+    'placement.center': 'Center horizontally',
+    'placement.right': 'Align right',
+    'placement.top': 'Align top',
+    'placement.middle': 'Center vertically',
+    'placement.bottom': 'Align bottom',
+    'placement.fitWidth': 'Fit width',
+    'placement.fitHeight': 'Fit height',
+    'placement.fitCover': 'Fill frame',
+    'placement.fitMode': 'Fit mode',
+    'placement.fitTo': 'Fit to...',
+    'placement.scale': 'Scale',
+    'placement.scalePercent': 'Scale in percent',
+    'placement.ratio': 'Source pixels per output pixel',
+    'placement.offsetX': 'Offset X',
+    'placement.offsetXLabel': 'Horizontal offset in output pixels',
+    'placement.offsetYLabel': 'Vertical offset in output pixels',
+    'placement.align': 'Align',
+
+    'guides.title': 'Composition guides',
+    'guides.thirds': 'Rule of thirds',
+    'guides.center': 'Center lines',
+    'guides.avatar': 'Profile picture frame',
+    'guides.avatar.circle': 'Circle',
+    'guides.avatar.rounded': 'Rounded square',
+    'guides.snap': 'Snap to guides',
+    'guides.safeZone': 'Safe zone',
+    'guides.zone.textMargin': 'General safe margin (5%)',
+    'guides.zone.story': 'Story 9:16',
+    'guides.zone.shortVideo': 'Short video (Reels/TikTok)',
+    'guides.top': 'Top',
+    'guides.right': 'Right',
+    'guides.bottom': 'Bottom',
+    'guides.left': 'Left',
+    'guides.inset': 'Safe zone {side} inset',
+
+    'adjust.title': 'Color and tone',
+    'adjust.histogram': 'Histogram',
+    'adjust.brightness': 'Brightness',
+    'adjust.contrast': 'Contrast',
+    'adjust.saturation': 'Saturation',
+    'adjust.exposure': 'Exposure (stops)',
+    'adjust.auto': 'Auto white balance and levels',
+    'adjust.undoAuto': 'Undo auto',
+    'adjust.reset': 'Reset colors',
+
+    'autoFrame.apply': 'Auto frame',
+    'autoFrame.method': 'Method',
+    'autoFrame.saliency': 'Find the subject from edges and detail',
+    'autoFrame.trim': 'Trim plain background borders',
+    'autoFrame.fill': 'Fill frame (crop the excess)',
+    'autoFrame.applyOnLoad': 'Auto frame every image not yet adjusted',
+
+    'background.title': 'Background',
+    'background.average': 'Average border color',
+    'background.dominant': 'Dominant border color',
+    'background.custom': 'Custom color',
+    'background.blur': 'Blurred image',
+    'background.mirror': 'Mirror the edges',
+    'background.stretch': 'Stretch the edges',
+    'background.transparent': 'Transparent (PNG/WebP)',
+    'background.color': 'Background color',
+    'background.picking': 'Click the image to pick a color',
+    'background.pick': 'Pick color from image',
+
+    'cutout.enable': 'Remove plain background from the image borders',
+    'cutout.makeTransparent': 'Use a transparent background',
+    'cutout.needsAlpha': 'Choose PNG or WebP to export a transparent background',
+    'cutout.tolerance': 'Color tolerance ({value})',
+    'cutout.feather': 'Edge softness ({value})',
+    'cutout.keepBrush': 'Keep brush',
+    'cutout.eraseBrush': 'Erase brush',
+    'cutout.brushSize': 'Brush size',
+    'cutout.clearStrokes': 'Clear strokes ({count})',
+    'cutout.keepHint': 'Drag on the result to restore parts removed by mistake',
+    'cutout.eraseHint': 'Drag on the result to remove parts that remain',
+
+    'resample.title': 'Resampling method',
+    'resample.browser': 'Browser default',
+    'resample.halving': 'Step-wise halving',
+    'resample.bicubic': 'Bicubic',
+    'resample.lanczos3': 'Lanczos3',
+    'resample.maxUpscale': 'Warn when enlarging over',
+    'resample.maxUpscaleRatio': 'Upscale warning ratio',
+    'resample.times': 'times',
+
+    'metadata.title': 'Image metadata',
+    'metadata.oriented': 'Rotated according to EXIF data',
+    'metadata.iccProfile': 'Color profile: {name}',
+    'metadata.gps': 'GPS location data found; it is always removed',
+    'metadata.none': 'No EXIF data that can be kept. Exported files will carry no data from the original',
+    'metadata.choose': 'Choose the data to keep in exported files (everything is removed by default)',
+    'metadata.jpegOnly': 'EXIF data can only be kept in JPEG files; other formats have all data removed',
+    'metadata.artist': 'Artist',
+    'metadata.copyright': 'Copyright',
+    'metadata.description': 'Description',
+    'metadata.make': 'Camera make',
+    'metadata.model': 'Camera model',
+    'metadata.dateTime': 'Date and time',
+
+    'recipes.title': 'Edit recipes',
+    'recipes.name': 'Recipe name',
+    'recipes.save': 'Save as favorite',
+    'recipes.downloadJson': 'Download JSON',
+    'recipes.import': 'Import recipe...',
+    'recipes.apply': 'Apply',
+    'recipes.download': 'Download',
+    'recipes.saved': 'Saved recipe "{name}"',
+    'recipes.imported': 'Imported and applied recipe "{name}"',
+    'recipes.importFailed': 'Could not import {name}: {error}',
+    'recipes.sizeNotFound': 'Size {size} not found, so the current size was kept',
+    'recipes.invalidField': 'The recipe\'s "{field}" is invalid',
+    'recipes.notRecipe': 'This file is not an edit recipe',
+    'recipes.newerVersion': 'This recipe was made by a newer version (version {version}). Please update the tool first',
+    'recipes.unsupportedVersion': 'Recipe version {version} is not supported (supported version is {supported})',
+    'recipes.invalidJson': 'The recipe file is not valid JSON',
+
+    'validation.title': 'File check results',
+    'validation.pass': 'Pass',
+    'validation.warn': 'Warning',
+    'validation.fail': 'Fail',
+    'validation.off': 'Off',
+    'validation.confirm': 'Use files that passed ({accepted} of {total})',
+    'validation.rules': 'File check rules',
+    'validation.maxFileSize': 'Max file size',
+    'validation.maxFileSizeMB': 'Maximum file size in MB',
+    'validation.allowedTypes': 'Allowed file types',
+    'validation.resolution': 'Resolution below the output size',
+    'validation.aspect': 'Height:width ratio',
+    'validation.min': 'Min',
+    'validation.minAspect': 'Minimum height to width ratio',
+    'validation.to': 'to',
+    'validation.max': 'Max',
+    'validation.maxAspect': 'Maximum height to width ratio',
+    'validation.usePresetRange': 'Use the range of {name}',
+    'validation.readFailed': 'Could not read the file',
+    'validation.decodeFailed': 'The file is damaged or this browser cannot decode its format',
+    'validation.tooBig': 'File is larger than {size} MB',
+    'validation.unknownType': 'Not a recognized image file',
+    'validation.typeNotAllowed': '{type} files are not allowed',
+    'validation.extensionMismatch': 'The .{extension} extension does not match the actual file type ({type})',
+    'validation.lowResolution': 'Resolution is below the {size} output size and needs {scale}x enlargement',
+    'validation.aspectOutOfRange': 'Height:width ratio {aspect} is outside {min}–{max}',
+
+    'watermark.enable': 'Watermark and logo (applied to every image)',
+    'watermark.addText': 'Add text',
+    'watermark.addLogo': 'Add logo...',
+    'watermark.place': 'Place on image',
+    'watermark.placeHint': 'Drag items on the result to move them, and drag the bottom-right corner to resize',
+    'watermark.logo': 'Logo',
+    'watermark.textItem': 'Text "{text}"',
+    'watermark.text': 'Overlay text',
+    'watermark.font': 'Font',
+    'watermark.color': 'Color',
+    'watermark.strokeColor': 'Outline',
+    'watermark.strokeWidth': 'Outline width ({value}%)',
+    'watermark.fontSize': 'Font size ({value}%)',
+    'watermark.width': 'Width ({value}%)',
+    'watermark.opacity': 'Opacity ({value}%)',
+    'watermark.anchor': 'Anchor',
+    'watermark.anchor.topLeft': 'Top left',
+    'watermark.anchor.top': 'Top center',
+    'watermark.anchor.topRight': 'Top right',
+    'watermark.anchor.left': 'Middle left',
+    'watermark.anchor.center': 'Center',
+    'watermark.anchor.right': 'Middle right',
+    'watermark.anchor.bottomLeft': 'Bottom left',
+    'watermark.anchor.bottom': 'Bottom center',
+    'watermark.anchor.bottomRight': 'Bottom right',
+    'watermark.offsetX': 'Horizontal offset (%)',
+    'watermark.offsetY': 'Vertical offset (%)',
+    'watermark.units': 'Sizes and offsets are % of the image\'s shorter side',
+    'watermark.logoFailed': 'Could not read {name} as an image',
+    'watermark.saveFailed': 'Could not save the watermark template in the browser (the logo may be too large). The template will be lost when the page reloads',
+  },
+};
+
+export default en;
@@ -0,0 +1,297 @@
+const th = {
+  language: 'th',
+  name: 'ไทย',
+  messages: {
+    'common.cancel': 'ยกเลิก',
+    'common.delete': 'ลบ',
+    'common.hidden': 'ไม่แสดง',
+    'common.readFailed': 'ไม่สามารถอ่านไฟล์ {name} ได้',
+    'common.save': 'บันทึก',
+    'common.unlimited': 'ไม่จำกัด',
+    'common.zoom': 'ซูม {zoom}x',
+
+    'app.title': 'เครื่องมือปรับขนาดรูปภาพ',
+    'app.intro': 'ปรับขนาดรูปภาพให้พอดีกับกรอบขนาด',
+    'app.introSize': '{size} พิกเซล',
+    'app.introDrag': 'คุณสามารถลากเพื่อย้ายและซูมภาพก่อนบันทึกได้',
+    'app.credit': 'สร้างโดย {author}',
+    'app.language': 'ภาษา',
+    'app.inspecting': 'กำลังตรวจสอบไฟล์...',
+    'app.processing': 'กำลังประมวลผลรูปภาพ...',
+    'app.wait': 'โปรดรอสักครู่',
+    'app.error': 'เกิดข้อผิดพลาด',
+    'app.removeFromQueue': 'นำรูปนี้ออกจากคิว',
+    'app.retry': 'ลองอีกครั้ง',
+    'app.original': 'ต้นฉบับ',
+    'app.resized': 'ปรับขนาดแล้ว',
+    'app.startOver': 'ปรับขนาดรูปภาพอื่น',
+
+    'canvas.label': 'พื้นที่จัดกรอบภาพ {size} ซูม {zoom} เท่า',
+    'canvas.keyboardHint': 'ใช้ปุ่มลูกศรเพื่อเลื่อนภาพ กด Shift ค้างไว้เพื่อเลื่อนทีละมาก ปุ่ม + และ - เพื่อซูม ปุ่ม 0 เพื่อรีเซ็ตให้พอดีกรอบ และ Ctrl+Z หรือ Ctrl+Shift+Z เพื่อเลิกทำหรือทำซ้ำ',
+    'canvas.zoom': 'ซูม ({zoom}x)',
+    'canvas.zoomSlider': 'แถบปรับซูม',
+    'canvas.compare': 'เปรียบเทียบก่อน/หลัง',
+    'canvas.compareSplit': 'ตำแหน่งเส้นแบ่งก่อน/หลัง',
+    'canvas.loupe': 'แว่นขยายไฟล์ผลลัพธ์',
+    'canvas.loupeOff': 'ปิด',
+    'canvas.undo': 'เลิกทำ',
+    'canvas.redo': 'ทำซ้ำ',
+    'canvas.resetView': 'รีเซ็ตให้พอดีกรอบ',
+    'canvas.upscaleWarning': 'ขยายจากต้นฉบับ {scale} เท่า ภาพอาจไม่คมชัด',
+
+    'compare.before': 'ก่อน',
+    'compare.after': 'หลัง',
+    'loupe.encoding': 'กำลังเข้ารหัส...',
+
+    'dropzone.click': 'คลิกเพื่ออัปโหลด',
+    'dropzone.drag': 'หรือลากไฟล์มาวาง',
+    'dropzone.formats': 'รองรับไฟล์ PNG, JPG, WEBP เลือกได้หลายไฟล์พร้อมกัน',
+    'dropzone.paste': 'หรือกด Ctrl+V เพื่อวางรูปจากคลิปบอร์ด หรือลากรูปจากแท็บอื่นมาวาง',
+
+    'queue.previous': 'ก่อนหน้า',
+    'queue.position': 'รูปที่ {index} จาก {total}',
+    'queue.next': 'ถัดไป',
+    'queue.item': 'รูปที่ {index}: {name}',
+    'queue.remove': 'นำ {name} ออก',
+    'queue.add': '+ เพิ่มรูป',
+
+    'preset.square-1040': 'สี่เหลี่ยมจัตุรัส',
+    'preset.width-1040': 'กว้าง 1040 คงสัดส่วน',
+    'preset.portrait-1080x1350': 'แนวตั้ง 4:5',
+    'preset.link-1200x628': 'ลิงก์แชร์',
+    'preset.banner-1040x520': 'แบนเนอร์ 2:1',
+    'preset.label': 'ขนาดผลลัพธ์',
+    'preset.delete': 'ลบขนาดนี้',
+    'preset.add': 'เพิ่มขนาดเอง',
+    'preset.name': 'ชื่อขนาด',
+    'preset.width': 'ความกว้างของขนาด',
+    'preset.height': 'ความสูงของขนาด',
+    'preset.invalidSize': 'ความกว้างและความสูงต้องเป็นจำนวนเต็มระหว่าง 1 ถึง {max} พิกเซล',
+    'preset.heightOutOfRange': 'ความสูงของรูปภาพที่ได้คือ {height}px ซึ่งอยู่นอกช่วงที่กำหนด ({min}px ถึง {max}px)',
+
+    'outputs.title': 'ขนาดเพิ่มเติมที่ส่งออกพร้อมกัน',
+    'outputs.add': '+ เพิ่มขนาด',
+    'outputs.size': 'ขนาดที่ส่งออก',
+    'outputs.framing': 'การจัดกรอบ',
+    'outputs.inherit': 'ใช้กรอบเดียวกับขนาดหลัก',
+    'outputs.own': 'จัดกรอบแยก',
+    'outputs.editing': 'กำลังจัดกรอบ',
+    'outputs.edit': 'จัดกรอบ',
+    'outputs.downloadAs': 'ดาวน์โหลดเป็น',
+    'outputs.files': 'แยกไฟล์',
+    'outputs.zip': 'ไฟล์ ZIP',
+
+    'export.format': 'รูปแบบไฟล์',
+    'export.quality': 'คุณภาพ {quality}%',
+    'export.qualitySlider': 'แถบปรับคุณภาพ',
+    'export.maxSize': 'ขนาดไม่เกิน',
+    'export.maxSizeKB': 'ขนาดไฟล์สูงสุดเป็น KB',
+    'export.estimating': 'กำลังคำนวณขนาดไฟล์...',
+    'export.estimate': 'ขนาดไฟล์โดยประมาณ {size}',
+    'export.overBudget': 'เกินขนาดที่กำหนด',
+    'export.download': 'ดาวน์โหลดรูปภาพ',
+    'export.copy': 'คัดลอกผลลัพธ์',
+    'export.copied': 'คัดลอกรูปภาพไปยังคลิปบอร์ดแล้ว',
+    'export.downloadAll': 'ดาวน์โหลดทั้งหมด ({count}) เป็น ZIP',
+    'export.zipProgress': 'กำลังสร้างไฟล์ ZIP ({done}/{total})...',
+    'export.skippedSizes': 'ข้ามขนาดที่ไม่สามารถปรับได้: {sizes}',
+    'export.skippedImages': 'ข้ามรูปภาพ {count} ไฟล์ที่ไม่สามารถปรับขนาดได้: {names}',
+
+    'encode.failed': 'ไม่สามารถเข้ารหัสรูปภาพได้',
+    'encode.unsupported': 'เบราว์เซอร์นี้ไม่รองรับการบันทึกเป็นไฟล์ {format}',
+    'decode.tooLarge': 'ภาพขนาด {size} ({megapixels} ล้านพิกเซล) ใหญ่เกินขีดจำกัด {limit} ล้านพิกเซลที่เบราว์เซอร์ถอดรหัสได้อย่างปลอดภัย โปรดย่อภาพด้วยโปรแกรมอื่นก่อน',
+    'decode.failed': 'ถอดรหัสภาพขนาด {size} ({megapixels} ล้านพิกเซล) ไม่สำเร็จ อาจเป็นไฟล์ที่เสียหาย หรือหน่วยความจำของเบราว์เซอร์ไม่พอสำหรับภาพขนาดนี้',
+    'decode.readFailed': 'เกิดข้อผิดพลาดในการอ่านไฟล์',
+    'decode.notImage': 'ไม่สามารถโหลดไฟล์รูปภาพได้ อาจเป็นไฟล์ที่เสียหายหรือไม่ใช่รูปภาพ',
+    'import.blocked': '{host} ไม่อนุญาตให้เว็บไซต์อื่นโหลดรูปนี้ (CORS) หรือเชื่อมต่อไม่ได้ โปรดบันทึกรูปลงเครื่องแล้วลากไฟล์มาวางแทน',
+    'import.httpError': 'โหลดรูปจาก {host} ไม่สำเร็จ (HTTP {status})',
+    'clipboard.unsupported': 'เบราว์เซอร์นี้ไม่รองรับการคัดลอกรูปภาพไปยังคลิปบอร์ด',
+    'clipboard.denied': 'ไม่สามารถคัดลอกรูปภาพไปยังคลิปบอร์ดได้ โปรดอนุญาตการเข้าถึงคลิปบอร์ดแล้วลองอีกครั้ง',
+
+    'transform.rotateLeft': 'หมุนซ้าย',
+    'transform.rotateRight': 'หมุนขวา',
+    'transform.flipH': 'พลิกแนวนอน',
+    'transform.flipV': 'พลิกแนวตั้ง',
+    'transform.reset': 'รีเซ็ตการหมุน',
+    'transform.straighten': 'ปรับเอียง ({angle}°)',
+    'transform.straightenSlider': 'แถบปรับเอียง',
+    'transform.autoCrop': 'ครอปอัตโนมัติ',
+
+    'placement.left': 'ชิดซ้าย',
+    'placement.center': 'กึ่งกลางแนวนอน',
+    'placement.right': 'ชิดขวา',
+    'placement.top': 'ชิดบน',
+    'placement.middle': 'กึ่งกลางแนวตั้ง',
+    'placement.bottom': 'ชิดล่าง',
+    'placement.fitWidth': 'พอดีความกว้าง',
+    'placement.fitHeight': 'พอดีความสูง',
+    'placement.fitCover': 'เต็มกรอบ',
+    'placement.fitMode': 'วิธีปรับขนาดให้พอดี',
+    'placement.fitTo': 'ปรับขนาดให้...',
+    'placement.scale': 'มาตราส่วน',
+    'placement.scalePercent': 'มาตราส่วนเป็นเปอร์เซ็นต์',
+    'placement.ratio': 'พิกเซลต้นฉบับต่อพิกเซลผลลัพธ์',
+    'placement.offsetX': 'เลื่อน X',
+    'placement.offsetXLabel': 'ระยะเลื่อนแนวนอนเป็นพิกเซลผลลัพธ์',
+    'placement.offsetYLabel': 'ระยะเลื่อนแนวตั้งเป็นพิกเซลผลลัพธ์',
+    'placement.align': 'จัดตำแหน่ง',
+
+    'guides.title': 'เส้นช่วยจัดองค์ประกอบ',
+    'guides.thirds': 'กฎสามส่วน',
+    'guides.center': 'เส้นกึ่งกลาง',
+    'guides.avatar': 'กรอบรูปโปรไฟล์',
+    'guides.avatar.circle': 'วงกลม',
+    'guides.avatar.rounded': 'สี่เหลี่ยมมุมมน',
+    'guides.snap': 'ดูดติดเส้น',
+    'guides.safeZone': 'พื้นที่ปลอดภัย',
+    'guides.zone.textMargin': 'ขอบปลอดภัยทั่วไป (5%)',
+    'guides.zone.story': 'สตอรี่ 9:16',
+    'guides.zone.shortVideo': 'วิดีโอสั้น (Reels/TikTok)',
+    'guides.top': 'บน',
+    'guides.right': 'ขวา',
+    'guides.bottom': 'ล่าง',
+    'guides.left': 'ซ้าย',
+    'guides.inset': 'ระยะขอบปลอดภัยด้าน{side}',
+
+    'adjust.title': 'ปรับสีและโทน',
+    'adjust.histogram': 'ฮิสโตแกรม',
+    'adjust.brightness': 'ความสว่าง',
+    'adjust.contrast': 'คอนทราสต์',
+    'adjust.saturation': 'ความอิ่มตัวของสี',
+    'adjust.exposure': 'การรับแสง (สต็อป)',
+    'adjust.auto': 'ปรับสมดุลแสงขาวและระดับสีอัตโนมัติ',
+    'adjust.undoAuto': 'ยกเลิกอัตโนมัติ',
+    'adjust.reset': 'รีเซ็ตสี',
+
+    'autoFrame.apply': 'จัดกรอบอัตโนมัติ',
+    'autoFrame.method': 'วิธี',
+    'autoFrame.saliency': 'หาจุดเด่นจากขอบและรายละเอียด',
+    'autoFrame.trim': 'ตัดขอบพื้นหลังสีเรียบ',
+    'autoFrame.fill': 'เต็มกรอบ (ครอปส่วนเกิน)',
+    'autoFrame.applyOnLoad': 'จัดกรอบอัตโนมัติทุกรูปที่ยังไม่ได้ปรับ',
+
+    'background.title': 'พื้นหลัง',
+    'background.average': 'สีเฉลี่ยของขอบภาพ',
+    'background.dominant': 'สีหลักของขอบภาพ',
+    'background.custom': 'กำหนดสีเอง',
+    'background.blur': 'ภาพเบลอด้านหลัง',
+    'background.mirror': 'สะท้อนภาพต่อขอบ',
+    'background.stretch': 'ยืดขอบภาพ',
+    'background.transparent': 'โปร่งใส (PNG/WebP)',
+    'background.color': 'สีพื้นหลัง',
+    'background.picking': 'คลิกบนภาพเพื่อเลือกสี',
+    'background.pick': 'ดูดสีจากภาพ',
+
+    'cutout.enable': 'ลบพื้นหลังสีเรียบจากขอบภาพ',
+    'cutout.makeTransparent': 'ใช้พื้นหลังโปร่งใส',
+    'cutout.needsAlpha': 'เลือก PNG หรือ WebP เพื่อส่งออกพื้นหลังโปร่งใส',
+    'cutout.tolerance': 'ความคลาดเคลื่อนของสี ({value})',
+    'cutout.feather': 'ความนุ่มของขอบ ({value})',
+    'cutout.keepBrush': 'แปรงเก็บไว้',
+    'cutout.eraseBrush': 'แปรงลบออก',
+    'cutout.brushSize': 'ขนาดแปรง',
+    'cutout.clearStrokes': 'ล้างการแต้ม ({count})',
+    'cutout.keepHint': 'ลากบนภาพผลลัพธ์เพื่อเก็บส่วนที่ถูกลบไปโดยไม่ตั้งใจ',
+    'cutout.eraseHint': 'ลากบนภาพผลลัพธ์เพื่อลบส่วนที่ยังเหลืออยู่',
+
+    'resample.title': 'วิธีย่อ/ขยายภาพ',
+    'resample.browser': 'ค่าเริ่มต้นของเบราว์เซอร์',
+    'resample.halving': 'ย่อทีละครึ่ง',
+    'resample.bicubic': 'Bicubic',
+    'resample.lanczos3': 'Lanczos3',
+    'resample.maxUpscale': 'เตือนเมื่อขยายเกิน',
+    'resample.maxUpscaleRatio': 'อัตราขยายที่จะแสดงคำเตือน',
+    'resample.times': 'เท่า',
+
+    'metadata.title': 'ข้อมูลรูปภาพ',
+    'metadata.oriented': 'หมุนรูปตามข้อมูล EXIF แล้ว',
+    'metadata.iccProfile': 'โปรไฟล์สี: {name}',
+    'metadata.gps': 'พบข้อมูลตำแหน่ง GPS ซึ่งจะถูกลบออกเสมอ',
+    'metadata.none': 'ไม่มีข้อมูล EXIF ที่เก็บไว้ได้ ไฟล์ที่ส่งออกจะไม่มีข้อมูลใด ๆ จากต้นฉบับ',
+    'metadata.choose': 'เลือกข้อมูลที่ต้องการเก็บไว้ในไฟล์ที่ส่งออก (ค่าเริ่มต้นคือลบทั้งหมด)',
+    'metadata.jpegOnly': 'การเก็บข้อมูล EXIF รองรับเฉพาะไฟล์ JPEG ไฟล์รูปแบบอื่นจะถูกลบข้อมูลทั้งหมด',
+    'metadata.artist': 'ผู้สร้าง (Artist)',
+    'metadata.copyright': 'ลิขสิทธิ์ (Copyright)',
+    'metadata.description': 'คำอธิบาย',
+    'metadata.make': 'ยี่ห้อกล้อง',
+    'metadata.model': 'รุ่นกล้อง',
+    'metadata.dateTime': 'วันที่และเวลา',
+
+    'recipes.title': 'สูตรการแก้ไข',
+    'recipes.name': 'ชื่อสูตร',
+    'recipes.save': 'บันทึกเป็นรายการโปรด',
+    'recipes.downloadJson': 'ดาวน์โหลด JSON',
+    'recipes.import': 'นำเข้าสูตร...',
+    'recipes.apply': 'ใช้สูตร',
+    'recipes.download': 'ดาวน์โหลด',
+    'recipes.saved': 'บันทึกสูตร "{name}" แล้ว',
+    'recipes.imported': 'นำเข้าและใช้สูตร "{name}" แล้ว',
+    'recipes.importFailed': 'นำเข้า {name} ไม่ได้: {error}',
+    'recipes.sizeNotFound': 'ไม่พบขนาด {size} จึงใช้ขนาดปัจจุบันแทน',
+    'recipes.invalidField': 'ข้อมูล "{field}" ในสูตรไม่ถูกต้อง',
+    'recipes.notRecipe': 'ไฟล์นี้ไม่ใช่สูตรการแก้ไข',
+    'recipes.newerVersion': 'สูตรนี้สร้างจากเวอร์ชันที่ใหม่กว่า (เวอร์ชัน {version}) โปรดอัปเดตเครื่องมือก่อน',
+    'recipes.unsupportedVersion': 'ไม่รองรับสูตรเวอร์ชัน {version} (รองรับเวอร์ชัน {supported})',
+    'recipes.invalidJson': 'ไฟล์สูตรไม่ใช่ JSON ที่ถูกต้อง',
+
+    'validation.title': 'ผลการตรวจสอบไฟล์',
+    'validation.pass': 'ผ่าน',
+    'validation.warn': 'เตือน',
+    'validation.fail': 'ไม่ผ่าน',
+    'validation.off': 'ไม่ตรวจ',
+    'validation.confirm': 'ใช้ไฟล์ที่ผ่าน ({accepted} จาก {total})',
+    'validation.rules': 'กฎการตรวจสอบไฟล์',
+    'validation.maxFileSize': 'ขนาดไฟล์ไม่เกิน',
+    'validation.maxFileSizeMB': 'ขนาดไฟล์สูงสุดเป็น MB',
+    'validation.allowedTypes': 'ชนิดไฟล์ที่อนุญาต',
+    'validation.resolution': 'ความละเอียดต่ำกว่าขนาดผลลัพธ์',
+    'validation.aspect': 'สัดส่วนสูง:กว้าง',
+    'validation.min': 'ต่ำสุด',
+    'validation.minAspect': 'สัดส่วนสูง:กว้างต่ำสุด',
+    'validation.to': 'ถึง',
+    'validation.max': 'สูงสุด',
+    'validation.maxAspect': 'สัดส่วนสูง:กว้างสูงสุด',
+    'validation.usePresetRange': 'ใช้ช่วงของ {name}',
+    'validation.readFailed': 'ไม่สามารถอ่านไฟล์ได้',
+    'validation.decodeFailed': 'ไฟล์เสียหายหรือเบราว์เซอร์นี้ถอดรหัสรูปแบบนี้ไม่ได้',
+    'validation.tooBig': 'ไฟล์ใหญ่เกิน {size} MB',
+    'validation.unknownType': 'ไม่ใช่ไฟล์รูปภาพที่รู้จัก',
+    'validation.typeNotAllowed': 'ไม่อนุญาตไฟล์ {type}',
+    'validation.extensionMismatch': 'นามสกุล .{extension} ไม่ตรงกับชนิดไฟล์จริง ({type})',
+    'validation.lowResolution': 'ความละเอียดต่ำกว่าขนาดผลลัพธ์ {size} ต้องขยาย {scale} เท่า',
+    'validation.aspectOutOfRange': 'สัดส่วนสูง:กว้าง {aspect} อยู่นอกช่วง {min}–{max}',
+
+    'watermark.enable': 'ลายน้ำและโลโก้ (ใช้กับทุกภาพ)',
+    'watermark.addText': 'เพิ่มข้อความ',
+    'watermark.addLogo': 'เพิ่มโลโก้...',
+    'watermark.place': 'จัดวางบนภาพ',
+    'watermark.placeHint': 'ลากรายการบนภาพผลลัพธ์เพื่อย้าย และลากมุมขวาล่างเพื่อปรับขนาด',
+    'watermark.logo': 'โลโก้',
+    'watermark.textItem': 'ข้อความ "{text}"',
+    'watermark.text': 'ข้อความลายน้ำ',
+    'watermark.font': 'แบบอักษร',
+    'watermark.color': 'สี',
+    'watermark.strokeColor': 'เส้นขอบ',
+    'watermark.strokeWidth': 'ความหนาเส้นขอบ ({value}%)',
+    'watermark.fontSize': 'ขนาดตัวอักษร ({value}%)',
+    'watermark.width': 'ความกว้าง ({value}%)',
+    'watermark.opacity': 'ความทึบ ({value}%)',
+    'watermark.anchor': 'จุดยึด',
+    'watermark.anchor.topLeft': 'บนซ้าย',
+    'watermark.anchor.top': 'บนกลาง',
+    'watermark.anchor.topRight': 'บนขวา',
+    'watermark.anchor.left': 'กลางซ้าย',
+    'watermark.anchor.center': 'กึ่งกลาง',
+    'watermark.anchor.right': 'กลางขวา',
+    'watermark.anchor.bottomLeft': 'ล่างซ้าย',
+    'watermark.anchor.bottom': 'ล่างกลาง',
+    'watermark.anchor.bottomRight': 'ล่างขวา',
+    'watermark.offsetX': 'ระยะแนวนอน (%)',
+    'watermark.offsetY': 'ระยะแนวตั้ง (%)',
+    'watermark.units': 'ขนาดและระยะวัดเป็น % ของด้านที่สั้นกว่าของภาพ',
+    'watermark.logoFailed': 'ไม่สามารถอ่านไฟล์ {name} เป็นรูปภาพได้',
+    'watermark.saveFailed': 'บันทึกเทมเพลตลายน้ำในเบราว์เซอร์ไม่ได้ (อาจเพราะโลโก้ใหญ่เกินไป) เทมเพลตจะหายไปเมื่อโหลดหน้าใหม่',
+  },
+};
+
+export default th;
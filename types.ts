@@ -1,4 +1,472 @@
+import type { MessageKey } from './utils/i18n';
+
 export interface ImageDimensions {
   width: number;
   height: number;
 }
+
+/**
+ * A preset that renders into a fixed frame, letterboxing the image as needed.
+ */
+export interface FramePreset {
+  kind: 'frame';
+  id: string;
+  name: string;
+  width: number;
+  height: number;
+  custom?: boolean;
+}
+
+/**
+ * A preset that fixes the output width and derives the height from the
+ * source aspect ratio. Results whose height falls outside the range are rejected.
+ */
+export interface FixedWidthPreset {
+  kind: 'fixed-width';
+  id: string;
+  name: string;
+  width: number;
+  minHeight: number;
+  maxHeight: number;
+  custom?: boolean;
+}
+
+export type OutputPreset = FramePreset | FixedWidthPreset;
+
+/**
+ * The concrete output size for a given preset and source image.
+ * `error` is set when the preset rejects the source image.
+ */
+export interface TargetSize extends ImageDimensions {
+  error: string | null;
+}
+
+/**
+ * The auto-fit placement of a source image inside the output frame.
+ */
+export interface FitTransform {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * An edge or center line of the frame that the image can be aligned to.
+ */
+export type Alignment = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+
+/**
+ * How the image is sized to the frame: to its width, to its height, or to cover it.
+ */
+export type FitMode = 'width' | 'height' | 'cover';
+
+export type QuarterTurn = 0 | 90 | 180 | 270;
+
+/**
+ * Orientation edits applied to the source before framing. Rotation and flips
+ * are lossless; `straighten` is a fine rotation about the image center.
+ */
+export interface ImageTransform {
+  /** Clockwise rotation in degrees. */
+  rotation: QuarterTurn;
+  flipH: boolean;
+  flipV: boolean;
+  /** Clockwise fine rotation in degrees, -45 to 45. */
+  straighten: number;
+  /** Scale the straightened image up so its rotated corners never show inside its own area. */
+  autoCrop: boolean;
+}
+
+/**
+ * A zoom and pan, as edited on the interactive canvas.
+ */
+export interface ViewState {
+  zoom: number;
+  pan: Point;
+}
+
+/**
+ * One image in the batch queue, with its own framing. A zoom of 1 and a pan
+ * of (0, 0) mean the auto-fit from `getInitialFit`.
+ */
+export interface QueueItem {
+  id: string;
+  file: File;
+  thumbnailUrl: string;
+  zoom: number;
+  pan: Point;
+  transform: ImageTransform;
+  /** Framing of extra outputs that don't inherit the primary one, by output id. */
+  outputViews: Record<string, ViewState>;
+  adjustments: ColorAdjustments;
+  cutout: CutoutSettings;
+}
+
+export type BrushMode = 'keep' | 'erase';
+
+/**
+ * A manual correction to the background removal, painted on the preview.
+ */
+export interface BrushStroke {
+  mode: BrushMode;
+  /** Radius as a fraction of the unrotated source's width, so it holds at any decoded size. */
+  radius: number;
+  /** Points along the stroke, normalized to the unrotated source. */
+  points: Point[];
+}
+
+/**
+ * Background removal by keying out the border color, flood-filled in from the image edges.
+ */
+export interface CutoutSettings {
+  enabled: boolean;
+  /** Largest per-channel difference from the border color that is removed, from 0 to 255. */
+  tolerance: number;
+  /** Blur radius of the mask's edges, in mask pixels. */
+  feather: number;
+  strokes: BrushStroke[];
+}
+
+export type OverlayAnchor =
+  | 'top-left' | 'top' | 'top-right'
+  | 'left' | 'center' | 'right'
+  | 'bottom-left' | 'bottom' | 'bottom-right';
+
+/**
+ * Placement shared by every overlay item. Lengths are fractions of the frame's
+ * shorter side, so one template fits outputs of any size.
+ */
+interface OverlayPlacement {
+  id: string;
+  anchor: OverlayAnchor;
+  /** Margin from the anchored edges, pointing inwards. Ignored on a centered axis, where it is a plain shift. */
+  offset: Point;
+  /** The logo's width, or the text's font size. */
+  size: number;
+  /** From 0 to 1. */
+  opacity: number;
+}
+
+export interface TextOverlay extends OverlayPlacement {
+  kind: 'text';
+  text: string;
+  /** A CSS font family. Only installed fonts are available to the render worker. */
+  font: string;
+  color: string;
+  strokeColor: string;
+  /** Outline width as a fraction of the font size; 0 draws no outline. */
+  strokeWidth: number;
+}
+
+export interface LogoOverlay extends OverlayPlacement {
+  kind: 'logo';
+  /** The logo as a PNG data URL, so the template can be stored. */
+  src: string;
+  /** Width over height. */
+  aspect: number;
+}
+
+export type OverlayItem = TextOverlay | LogoOverlay;
+
+/**
+ * Text and logos drawn over every output, e.g. a watermark. Kept across images and sessions.
+ */
+export interface WatermarkTemplate {
+  enabled: boolean;
+  items: OverlayItem[];
+}
+
+/**
+ * Color and tone adjustments, applied to the rendered frame. The sliders are
+ * neutral at 0; the auto white balance and levels are neutral at their defaults.
+ */
+export interface ColorAdjustments {
+  /** -100 to 100. */
+  brightness: number;
+  /** -100 to 100. */
+  contrast: number;
+  /** -100 to 100, where -100 is grayscale. */
+  saturation: number;
+  /** In stops, -2 to 2. */
+  exposure: number;
+  /** Per-channel gains from auto white balance. */
+  whiteBalance: { r: number; g: number; b: number };
+  /** Input black and white points from auto levels, from 0 to 255. */
+  levels: { black: number; white: number };
+}
+
+/**
+ * Pixel counts per value, from 0 to 255, for each channel and for luma.
+ */
+export interface Histogram {
+  r: Uint32Array;
+  g: Uint32Array;
+  b: Uint32Array;
+  luma: Uint32Array;
+}
+
+export type OutputFormat = 'jpeg' | 'png' | 'webp';
+
+export interface ExportSettings {
+  format: OutputFormat;
+  /** Encoder quality from 0 to 1. Ignored for PNG. */
+  quality: number;
+  /** Target file size in kilobytes, or null for no limit. */
+  maxKB: number | null;
+}
+
+/**
+ * The result of encoding an output frame.
+ * `quality` is the level actually used, which may be lower than requested to meet `maxKB`.
+ */
+export interface EncodeResult {
+  blob: Blob;
+  quality: number;
+  withinBudget: boolean;
+}
+
+/**
+ * The predicted output file size shown before download.
+ */
+export interface SizeEstimate {
+  size: number;
+  quality: number;
+  withinBudget: boolean;
+}
+
+export type BackgroundMode = 'average' | 'dominant' | 'custom' | 'blur' | 'mirror' | 'stretch' | 'transparent';
+
+export interface BackgroundSettings {
+  mode: BackgroundMode;
+  /** Fill color for the `custom` mode, as a hex string. */
+  color: string;
+}
+
+/**
+ * How the image is scaled to the output size. `browser` is a single
+ * `drawImage`; `halving` shrinks in 2x steps first; the others are convolution filters.
+ */
+export type ResampleFilter = 'browser' | 'halving' | 'bicubic' | 'lanczos3';
+
+export interface ResampleSettings {
+  filter: ResampleFilter;
+  /** Output pixels per source pixel above which the upscale warning is shown. */
+  maxUpscale: number;
+}
+
+/**
+ * Everything needed to render one output frame from a source image.
+ */
+export interface FrameSpec {
+  target: ImageDimensions;
+  /** Full size of the unrotated source the framing refers to. The image drawn may be a reduced working copy. */
+  sourceSize: ImageDimensions;
+  fit: FitTransform;
+  zoom: number;
+  pan: Point;
+  background: BackgroundSettings;
+  resample: ResampleFilter;
+  transform: ImageTransform;
+  adjustments: ColorAdjustments;
+  cutout: CutoutSettings;
+  overlay: WatermarkTemplate;
+}
+
+/**
+ * A full-resolution copy of part of a source image too large to keep whole.
+ * Exports draw it in place of the reduced working copy.
+ */
+export interface SourceDetail {
+  image: ImageBitmap;
+  /** The part of the unrotated source the image covers, normalized. */
+  region: Rect;
+}
+
+/**
+ * Anything the renderer can draw from. Workers only see ImageBitmap and OffscreenCanvas.
+ */
+export type SourceImage = ImageBitmap | HTMLImageElement | HTMLCanvasElement | OffscreenCanvas;
+
+export type AnyCanvas = HTMLCanvasElement | OffscreenCanvas;
+
+export type RenderContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+/**
+ * Text fields read from EXIF that can be carried over into exported JPEGs.
+ */
+export type MetadataField = 'artist' | 'copyright' | 'description' | 'make' | 'model' | 'dateTime';
+
+/**
+ * Metadata read from a source image file.
+ */
+export interface ImageMetadata {
+  /** EXIF orientation, 1 to 8. 1 means no transform. */
+  orientation: number;
+  fields: Partial<Record<MetadataField, string>>;
+  hasGps: boolean;
+  /** Name of the embedded ICC color profile, if any. */
+  iccProfile: string | null;
+}
+
+export interface MetadataSettings {
+  /** Fields copied into exported JPEGs. Everything else, including GPS, is stripped. */
+  keepFields: MetadataField[];
+}
+
+/**
+ * How the subject is located for auto framing: edge and entropy saliency, or
+ * trimming a uniform border such as a product photo's white background.
+ */
+export type AutoFrameMethod = 'saliency' | 'trim';
+
+export interface AutoFrameSettings {
+  method: AutoFrameMethod;
+  /** Crop to cover the frame, keeping the subject as central as possible, instead of fitting the subject. */
+  fill: boolean;
+  /** Auto frame images that still have the plain fit when they are opened or exported. */
+  applyOnLoad: boolean;
+}
+
+/**
+ * Subject boxes found in an image, per method, normalized to 0..1 of the
+ * unrotated source.
+ */
+export type SubjectAnalysis = Record<AutoFrameMethod, Rect>;
+
+/**
+ * Distances in from each edge of the frame, in percent of the frame's size.
+ */
+export interface Insets {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+/**
+ * A named area of the frame kept clear of platform UI such as captions and buttons.
+ */
+export interface SafeZone {
+  id: string;
+  /** Key of the zone's name in the message catalogs. */
+  name: MessageKey;
+  insets: Insets;
+}
+
+export type AvatarMask = 'none' | 'circle' | 'rounded';
+
+/**
+ * Overlays drawn over the preview only. None of them are part of the exported image.
+ */
+export interface GuideSettings {
+  thirds: boolean;
+  center: boolean;
+  avatar: AvatarMask;
+  safeZone: SafeZone | null;
+  /** Snap the image's edges and center to visible guides and the frame while panning and zooming. */
+  snap: boolean;
+}
+
+/**
+ * Positions of guide lines, in output pixels.
+ */
+export interface GuideLines {
+  vertical: number[];
+  horizontal: number[];
+}
+
+/**
+ * How an extra output is framed: the primary framing scaled to its size, or its own zoom and pan.
+ */
+export type OutputFraming = 'inherit' | 'own';
+
+/**
+ * An extra size exported alongside the primary preset.
+ */
+export interface OutputSpec {
+  id: string;
+  presetId: string;
+  framing: OutputFraming;
+}
+
+/**
+ * Whether a download with several outputs saves separate files or one ZIP.
+ */
+export type MultiDownloadMode = 'files' | 'zip';
+
+/**
+ * Image formats recognized from a file's leading bytes.
+ */
+export type ImageType = 'jpeg' | 'png' | 'webp' | 'gif' | 'bmp' | 'avif';
+
+/**
+ * What happens when a file breaks a rule.
+ */
+export type RuleLevel = 'off' | 'warn' | 'fail';
+
+export interface ValidationRules {
+  maxFileSizeMB: number | null;
+  allowedTypes: ImageType[];
+  /** Applied when the source is smaller than the output and would be upscaled. */
+  resolutionLevel: RuleLevel;
+  /** Applied when the height:width ratio falls outside `minAspect`..`maxAspect`. */
+  aspectLevel: RuleLevel;
+  minAspect: number | null;
+  maxAspect: number | null;
+}
+
+/**
+ * What was learned about a file by reading it, independent of the rules.
+ */
+export interface FileFacts {
+  file: File;
+  /** The type sniffed from the file's contents, or null if unrecognized. */
+  type: ImageType | null;
+  dimensions: ImageDimensions | null;
+  decodeError: string | null;
+}
+
+export type ValidationStatus = 'pass' | 'warn' | 'fail';
+
+export interface ValidationIssue {
+  level: 'warn' | 'fail';
+  message: string;
+}
+
+export interface FileReport {
+  facts: FileFacts;
+  status: ValidationStatus;
+  issues: ValidationIssue[];
+}
+
+/**
+ * The editable state of a queue item, as recorded in its undo history.
+ */
+export type EditSnapshot = Pick<QueueItem, 'zoom' | 'pan' | 'transform' | 'outputViews' | 'adjustments' | 'cutout'>;
+
+/**
+ * A saved framing style that can be re-applied to other images. The pan is
+ * kept as `anchor`, a fraction of the zoomed image's size, so it transfers
+ * between images of different sizes.
+ */
+export interface EditRecipe {
+  version: number;
+  name: string;
+  preset: OutputPreset;
+  zoom: number;
+  anchor: Point;
+  background: BackgroundSettings;
+  export: ExportSettings;
+}
@@ -0,0 +1,176 @@
+import type { ColorAdjustments, Histogram, ImageDimensions, RenderContext, SourceImage } from '../types';
+import { createCanvas, get2DContext } from './canvas';
+import type { MessageKey } from './i18n';
+
+export const DEFAULT_ADJUSTMENTS: ColorAdjustments = {
+  brightness: 0,
+  contrast: 0,
+  saturation: 0,
+  exposure: 0,
+  whiteBalance: { r: 1, g: 1, b: 1 },
+  levels: { black: 0, white: 255 },
+};
+
+export type AdjustmentSlider = 'brightness' | 'contrast' | 'saturation' | 'exposure';
+
+export const ADJUSTMENT_SLIDERS: { key: AdjustmentSlider; label: MessageKey; min: number; max: number; step: number }[] = [
+  { key: 'brightness', label: 'adjust.brightness', min: -100, max: 100, step: 1 },
+  { key: 'contrast', label: 'adjust.contrast', min: -100, max: 100, step: 1 },
+  { key: 'saturation', label: 'adjust.saturation', min: -100, max: 100, step: 1 },
+  { key: 'exposure', label: 'adjust.exposure', min: -2, max: 2, step: 0.05 },
+];
+
+// Longest side of the copy histograms are measured on
+const HISTOGRAM_SAMPLE_SIZE = 256;
+// Share of pixels auto levels lets clip at each end
+const LEVELS_CLIP = 0.005;
+// Narrowest luma range auto levels will stretch, so flat images aren't blown out
+const MIN_LEVELS_RANGE = 32;
+// Largest correction auto white balance applies to one channel
+const MAX_WHITE_BALANCE_GAIN = 2;
+
+/**
+ * Whether the adjustments leave every pixel unchanged, so rendering can skip them.
+ */
+export const isNeutralAdjustment = (adjustments: ColorAdjustments): boolean => {
+  const { brightness, contrast, saturation, exposure, whiteBalance, levels } = adjustments;
+  return brightness === 0 && contrast === 0 && saturation === 0 && exposure === 0 &&
+    whiteBalance.r === 1 && whiteBalance.g === 1 && whiteBalance.b === 1 &&
+    levels.black === 0 && levels.white === 255;
+};
+
+/**
+ * Builds one lookup table per channel for everything except saturation:
+ * levels, white balance, exposure, contrast and brightness, in that order.
+ */
+const buildCurves = (adjustments: ColorAdjustments): Uint8ClampedArray[] => {
+  const { levels, whiteBalance } = adjustments;
+  const range = Math.max(1, levels.white - levels.black);
+  const exposure = 2 ** adjustments.exposure;
+  const contrast = 2 ** (adjustments.contrast / 100);
+  const brightness = adjustments.brightness / 200;
+  return [whiteBalance.r, whiteBalance.g, whiteBalance.b].map(gain => {
+    const curve = new Uint8ClampedArray(256);
+    for (let i = 0; i < 256; i++) {
+      const value = (i - levels.black) / range * gain * exposure;
+      // Uint8ClampedArray clamps and rounds the result
+      curve[i] = ((value - 0.5) * contrast + 0.5 + brightness) * 255;
+    }
+    return curve;
+  });
+};
+
+/**
+ * Applies adjustments to RGBA pixels in place. Alpha is left alone.
+ */
+export const adjustPixels = (data: Uint8ClampedArray, adjustments: ColorAdjustments): void => {
+  const [red, green, blue] = buildCurves(adjustments);
+  const saturation = 1 + adjustments.saturation / 100;
+  for (let i = 0; i < data.length; i += 4) {
+    const r = red[data[i]];
+    const g = green[data[i + 1]];
+    const b = blue[data[i + 2]];
+    if (saturation === 1) {
+      data[i] = r;
+      data[i + 1] = g;
+      data[i + 2] = b;
+      continue;
+    }
+    const luma = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+    data[i] = luma + (r - luma) * saturation;
+    data[i + 1] = luma + (g - luma) * saturation;
+    data[i + 2] = luma + (b - luma) * saturation;
+  }
+};
+
+/**
+ * Applies adjustments to everything drawn in the frame so far, by reading the
+ * pixels back, since `ctx.filter` isn't portable.
+ */
+export const applyAdjustments = (ctx: RenderContext, target: ImageDimensions, adjustments: ColorAdjustments): void => {
+  try {
+    const imageData = ctx.getImageData(0, 0, target.width, target.height);
+    adjustPixels(imageData.data, adjustments);
+    ctx.putImageData(imageData, 0, 0);
+  } catch (e) {
+    console.error("Error applying color adjustments:", e);
+  }
+};
+
+/**
+ * Takes a small copy of an image's pixels to measure histograms on.
+ * @returns The pixels, or null if the image can't be read.
+ */
+export const createColorSample = (img: SourceImage): ImageData | null => {
+  const scale = Math.min(1, HISTOGRAM_SAMPLE_SIZE / Math.max(img.width, img.height));
+  const width = Math.max(1, Math.round(img.width * scale));
+  const height = Math.max(1, Math.round(img.height * scale));
+  const ctx = get2DContext(createCanvas(width, height), { willReadFrequently: true });
+  if (!ctx) return null;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(img, 0, 0, width, height);
+  try {
+    return ctx.getImageData(0, 0, width, height);
+  } catch (e) {
+    console.error("Error sampling image colors:", e);
+    return null;
+  }
+};
+
+/**
+ * Counts the sample's values per channel after the adjustments. Fully transparent pixels are skipped.
+ */
+export const computeHistogram = (sample: ImageData, adjustments: ColorAdjustments): Histogram => {
+  const data = new Uint8ClampedArray(sample.data);
+  if (!isNeutralAdjustment(adjustments)) adjustPixels(data, adjustments);
+  const histogram: Histogram = {
+    r: new Uint32Array(256),
+    g: new Uint32Array(256),
+    b: new Uint32Array(256),
+    luma: new Uint32Array(256),
+  };
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0) continue;
+    histogram.r[data[i]]++;
+    histogram.g[data[i + 1]]++;
+    histogram.b[data[i + 2]]++;
+    histogram.luma[Math.round(0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2])]++;
+  }
+  return histogram;
+};
+
+const getMean = (bins: Uint32Array): number => {
+  let sum = 0;
+  let count = 0;
+  for (let i = 0; i < bins.length; i++) {
+    sum += i * bins[i];
+    count += bins[i];
+  }
+  return count > 0 ? sum / count : 0;
+};
+
+/**
+ * Works out auto white balance and auto levels from an unadjusted histogram.
+ * White balance scales each channel so the image averages to a neutral gray;
+ * levels stretch the luma between its extremes, ignoring a small share of outliers.
+ */
+export const getAutoColor = (histogram: Histogram): Pick<ColorAdjustments, 'whiteBalance' | 'levels'> => {
+  const means = { r: getMean(histogram.r), g: getMean(histogram.g), b: getMean(histogram.b) };
+  const gray = (means.r + means.g + means.b) / 3;
+  const gain = (mean: number) =>
+    mean > 0 ? Math.max(1 / MAX_WHITE_BALANCE_GAIN, Math.min(MAX_WHITE_BALANCE_GAIN, gray / mean)) : 1;
+
+  const total = histogram.luma.reduce((sum, count) => sum + count, 0);
+  const clip = total * LEVELS_CLIP;
+  let black = 0;
+  let below = histogram.luma[0];
+  while (black < 255 && below <= clip) below += histogram.luma[++black];
+  let white = 255;
+  let above = histogram.luma[255];
+  while (white > 0 && above <= clip) above += histogram.luma[--white];
+
+  return {
+    whiteBalance: { r: gain(means.r), g: gain(means.g), b: gain(means.b) },
+    levels: white - black >= MIN_LEVELS_RANGE ? { black, white } : { black: 0, white: 255 },
+  };
+};
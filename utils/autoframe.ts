@@ -0,0 +1,239 @@
+import type { AutoFrameMethod, AutoFrameSettings, FitTransform, ImageDimensions, ImageTransform, Point, Rect, SourceImage, SubjectAnalysis } from '../types';
+import { createCanvas, get2DContext } from './canvas';
+import { MAX_ZOOM, clampPan, getStraightenScale } from './geometry';
+import type { MessageKey } from './i18n';
+
+export const AUTO_FRAME_METHODS: { method: AutoFrameMethod; label: MessageKey }[] = [
+  { method: 'saliency', label: 'autoFrame.saliency' },
+  { method: 'trim', label: 'autoFrame.trim' },
+];
+
+export const DEFAULT_AUTO_FRAME_SETTINGS: AutoFrameSettings = {
+  method: 'saliency',
+  fill: false,
+  applyOnLoad: false,
+};
+
+// Longest side of the downscaled copy the analysis runs on
+const ANALYSIS_SIZE = 128;
+// Side of the square blocks local entropy is measured over
+const ENTROPY_BLOCK = 8;
+// Share of the saliency mass left outside the subject box on each side
+const SALIENCY_TAIL = 0.05;
+// Per-channel difference from the border color that counts as content when trimming
+const TRIM_TOLERANCE = 24;
+// Space kept around the subject when fitting it, as a fraction of its size per side
+const SUBJECT_PADDING = 0.05;
+
+const FULL_FRAME: Rect = { x: 0, y: 0, width: 1, height: 1 };
+
+/**
+ * Finds the bounds of the content that differs from the median border color.
+ * Rows and columns need a few differing pixels to count, which ignores noise and dust.
+ */
+const findTrimBox = (data: Uint8ClampedArray, width: number, height: number): Rect => {
+  const border: number[][] = [[], [], [], []];
+  const addBorder = (i: number) => {
+    for (let c = 0; c < 4; c++) border[c].push(data[i + c]);
+  };
+  for (let x = 0; x < width; x++) {
+    addBorder(x * 4);
+    addBorder(((height - 1) * width + x) * 4);
+  }
+  for (let y = 1; y < height - 1; y++) {
+    addBorder(y * width * 4);
+    addBorder((y * width + width - 1) * 4);
+  }
+  const background = border.map(values => values.sort((a, b) => a - b)[values.length >> 1]);
+
+  const rowCounts = new Uint32Array(height);
+  const colCounts = new Uint32Array(width);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      let diff = 0;
+      for (let c = 0; c < 4; c++) diff = Math.max(diff, Math.abs(data[i + c] - background[c]));
+      if (diff > TRIM_TOLERANCE) {
+        rowCounts[y]++;
+        colCounts[x]++;
+      }
+    }
+  }
+
+  const minRow = Math.max(1, Math.round(width * 0.005));
+  const minCol = Math.max(1, Math.round(height * 0.005));
+  const top = rowCounts.findIndex(count => count >= minRow);
+  const left = colCounts.findIndex(count => count >= minCol);
+  if (top < 0 || left < 0) return FULL_FRAME;
+  let bottom = height;
+  while (rowCounts[bottom - 1] < minRow) bottom--;
+  let right = width;
+  while (colCounts[right - 1] < minCol) right--;
+  return { x: left / width, y: top / height, width: (right - left) / width, height: (bottom - top) / height };
+};
+
+/**
+ * Scores each pixel by edge strength, weighted by the entropy of its
+ * neighbourhood and a mild center prior. Flat or smoothly graded backgrounds score low.
+ */
+const getSaliencyMap = (data: Uint8ClampedArray, width: number, height: number): Float32Array => {
+  const luma = new Float32Array(width * height);
+  for (let i = 0; i < luma.length; i++) {
+    const a = data[i * 4 + 3] / 255;
+    luma[i] = (0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]) * a;
+  }
+
+  // Shannon entropy of a 16-bin luma histogram per block, 0 to 4 bits
+  const blocksX = Math.ceil(width / ENTROPY_BLOCK);
+  const blocksY = Math.ceil(height / ENTROPY_BLOCK);
+  const entropy = new Float32Array(blocksX * blocksY);
+  const histogram = new Uint32Array(16);
+  for (let by = 0; by < blocksY; by++) {
+    for (let bx = 0; bx < blocksX; bx++) {
+      histogram.fill(0);
+      let total = 0;
+      for (let y = by * ENTROPY_BLOCK; y < Math.min(height, (by + 1) * ENTROPY_BLOCK); y++) {
+        for (let x = bx * ENTROPY_BLOCK; x < Math.min(width, (bx + 1) * ENTROPY_BLOCK); x++) {
+          histogram[Math.min(15, luma[y * width + x] >> 4)]++;
+          total++;
+        }
+      }
+      let h = 0;
+      histogram.forEach(count => {
+        if (count > 0) h -= (count / total) * Math.log2(count / total);
+      });
+      entropy[by * blocksX + bx] = h / 4;
+    }
+  }
+
+  const saliency = new Float32Array(width * height);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      // Sobel gradient
+      const gx = luma[i - width + 1] + 2 * luma[i + 1] + luma[i + width + 1]
+        - luma[i - width - 1] - 2 * luma[i - 1] - luma[i + width - 1];
+      const gy = luma[i + width - 1] + 2 * luma[i + width] + luma[i + width + 1]
+        - luma[i - width - 1] - 2 * luma[i - width] - luma[i - width + 1];
+      const dx = (x + 0.5) / width - 0.5;
+      const dy = (y + 0.5) / height - 0.5;
+      const center = 1 - 0.5 * (dx * dx + dy * dy);
+      const blockEntropy = entropy[Math.floor(y / ENTROPY_BLOCK) * blocksX + Math.floor(x / ENTROPY_BLOCK)];
+      saliency[i] = Math.hypot(gx, gy) * (0.25 + blockEntropy) * center;
+    }
+  }
+
+  // Subtract the typical score so texture spread over the whole image doesn't dominate
+  const sorted = saliency.slice().sort();
+  const median = sorted[sorted.length >> 1];
+  return saliency.map(value => Math.max(0, value - median));
+};
+
+/**
+ * Finds the range along one axis that holds the central share of the saliency mass.
+ */
+const getMassRange = (sums: Float64Array): [number, number] => {
+  const total = sums.reduce((sum, value) => sum + value, 0);
+  if (total === 0) return [0, sums.length];
+  let start = 0;
+  let end = sums.length;
+  for (let acc = 0; start < sums.length && acc + sums[start] <= total * SALIENCY_TAIL; start++) acc += sums[start];
+  for (let acc = 0; end > start + 1 && acc + sums[end - 1] <= total * SALIENCY_TAIL; end--) acc += sums[end - 1];
+  return [start, end];
+};
+
+const findSalientBox = (data: Uint8ClampedArray, width: number, height: number): Rect => {
+  const saliency = getSaliencyMap(data, width, height);
+  const rowSums = new Float64Array(height);
+  const colSums = new Float64Array(width);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      rowSums[y] += saliency[y * width + x];
+      colSums[x] += saliency[y * width + x];
+    }
+  }
+  const [left, right] = getMassRange(colSums);
+  const [top, bottom] = getMassRange(rowSums);
+  return { x: left / width, y: top / height, width: (right - left) / width, height: (bottom - top) / height };
+};
+
+/**
+ * Locates the subject of an image with every auto-frame method. Runs on a
+ * small downscaled copy, so it's cheap enough to do once per loaded image.
+ * @param img The unrotated source image.
+ * @returns Subject boxes normalized to the source, or null if pixels can't be read.
+ */
+export const analyzeSubject = (img: SourceImage): SubjectAnalysis | null => {
+  const scale = Math.min(1, ANALYSIS_SIZE / Math.max(img.width, img.height));
+  const width = Math.max(3, Math.round(img.width * scale));
+  const height = Math.max(3, Math.round(img.height * scale));
+  const canvas = createCanvas(width, height);
+  const ctx = get2DContext(canvas, { willReadFrequently: true });
+  if (!ctx) return null;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(img, 0, 0, width, height);
+
+  try {
+    const { data } = ctx.getImageData(0, 0, width, height);
+    return { saliency: findSalientBox(data, width, height), trim: findTrimBox(data, width, height) };
+  } catch (e) {
+    console.error("Error reading pixels for auto framing:", e);
+    return null;
+  }
+};
+
+/**
+ * Maps a normalized rect on the unrotated source through the quarter-turn rotation and flips.
+ */
+export const orientNormalizedRect = (rect: Rect, transform: ImageTransform): Rect => {
+  let { x, y, width, height } = rect;
+  switch (transform.rotation) {
+    case 90:
+      [x, y, width, height] = [1 - y - height, x, height, width];
+      break;
+    case 180:
+      [x, y] = [1 - x - width, 1 - y - height];
+      break;
+    case 270:
+      [x, y, width, height] = [y, 1 - x - width, height, width];
+      break;
+  }
+  if (transform.flipH) x = 1 - x - width;
+  if (transform.flipV) y = 1 - y - height;
+  return { x, y, width, height };
+};
+
+/**
+ * Picks the zoom and pan that frame the subject: either fitting the subject
+ * with a small margin, or covering the frame with the subject as central as the image allows.
+ * @param source The dimensions of the oriented source image.
+ * @param subject The subject box, normalized to the oriented source.
+ * @returns The zoom and clamped pan for the queue item.
+ */
+export const getAutoFraming = (
+  source: ImageDimensions,
+  target: ImageDimensions,
+  fit: FitTransform,
+  subject: Rect,
+  fill: boolean,
+  transform: ImageTransform
+): { zoom: number; pan: Point } => {
+  const subjectWidth = Math.max(1, subject.width * source.width);
+  const subjectHeight = Math.max(1, subject.height * source.height);
+  const scale = fill
+    ? Math.max(target.width / source.width, target.height / source.height)
+    : Math.min(
+        target.width / (subjectWidth * (1 + 2 * SUBJECT_PADDING)),
+        target.height / (subjectHeight * (1 + 2 * SUBJECT_PADDING))
+      );
+  const straightenScale = getStraightenScale(source, transform);
+  const zoom = Math.max(1, Math.min(MAX_ZOOM, scale / (fit.scale * straightenScale)));
+
+  // Move the subject's center to the frame's center
+  const currentScale = fit.scale * zoom * straightenScale;
+  const pan = {
+    x: -((subject.x + subject.width / 2) * source.width - source.width / 2) * currentScale,
+    y: -((subject.y + subject.height / 2) * source.height - source.height / 2) * currentScale,
+  };
+  return { zoom, pan: clampPan(source, target, fit, zoom, pan, transform) };
+};
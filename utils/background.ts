@@ -0,0 +1,103 @@
+import type { BackgroundMode, BackgroundSettings, SourceImage } from '../types';
+import { createCanvas, get2DContext } from './canvas';
+import type { MessageKey } from './i18n';
+
+export const BACKGROUND_MODES: { mode: BackgroundMode; label: MessageKey }[] = [
+  { mode: 'average', label: 'background.average' },
+  { mode: 'dominant', label: 'background.dominant' },
+  { mode: 'custom', label: 'background.custom' },
+  { mode: 'blur', label: 'background.blur' },
+  { mode: 'mirror', label: 'background.mirror' },
+  { mode: 'stretch', label: 'background.stretch' },
+  { mode: 'transparent', label: 'background.transparent' },
+];
+
+export const DEFAULT_BACKGROUND: BackgroundSettings = { mode: 'average', color: '#ffffff' };
+
+/**
+ * Converts RGB channels to a hex color string (e.g., "#7b2d43").
+ */
+export const rgbToHex = (r: number, g: number, b: number): string =>
+  `#${[r, g, b].map(c => c.toString(16).padStart(2, '0')).join('')}`;
+
+/**
+ * Reads the outermost row and column of pixels on each side of an image.
+ * Only 1px strips are drawn, so this stays cheap for large images.
+ * @returns RGBA pixel data for the top, bottom, left and right edges, in that order.
+ */
+const getBorderPixels = (img: SourceImage): Uint8ClampedArray | null => {
+  const { width, height } = img;
+  const canvas = createCanvas(Math.max(width, height), 4);
+  const ctx = get2DContext(canvas, { willReadFrequently: true });
+  if (!ctx || width === 0 || height === 0) return null;
+
+  ctx.drawImage(img, 0, 0, width, 1, 0, 0, width, 1);
+  ctx.drawImage(img, 0, height - 1, width, 1, 0, 1, width, 1);
+  // Columns are rotated into rows so all four edges fit in one small canvas
+  ctx.save();
+  ctx.setTransform(0, 1, 1, 0, 0, 2);
+  ctx.drawImage(img, 0, 0, 1, height, 0, 0, 1, height);
+  ctx.setTransform(0, 1, 1, 0, 0, 3);
+  ctx.drawImage(img, width - 1, 0, 1, height, 0, 0, 1, height);
+  ctx.restore();
+
+  try {
+    const rows = ctx.getImageData(0, 0, canvas.width, 4).data;
+    const pixels = new Uint8ClampedArray((width * 2 + height * 2) * 4);
+    pixels.set(rows.subarray(0, width * 4), 0);
+    pixels.set(rows.subarray(canvas.width * 4, (canvas.width + width) * 4), width * 4);
+    pixels.set(rows.subarray(canvas.width * 8, (canvas.width * 2 + height) * 4), width * 8);
+    pixels.set(rows.subarray(canvas.width * 12, (canvas.width * 3 + height) * 4), (width * 2 + height) * 4);
+    return pixels;
+  } catch (e) {
+    console.error("Error getting image data for border pixels:", e);
+    return null;
+  }
+};
+
+/**
+ * Calculates the average color from the border pixels of an image.
+ * @param img The image to process.
+ * @returns An RGB color string (e.g., "rgb(123, 45, 67)").
+ */
+export const getAverageBorderColor = (img: SourceImage): string => {
+  const pixels = getBorderPixels(img);
+  if (!pixels || pixels.length === 0) return 'rgb(0, 0, 0)';
+
+  let r = 0, g = 0, b = 0;
+  for (let i = 0; i < pixels.length; i += 4) {
+    r += pixels[i];
+    g += pixels[i + 1];
+    b += pixels[i + 2];
+  }
+  const count = pixels.length / 4;
+  return `rgb(${Math.floor(r / count)}, ${Math.floor(g / count)}, ${Math.floor(b / count)})`;
+};
+
+/**
+ * Finds the most common color along the border of an image. Colors are
+ * quantized to 4 bits per channel, and the winning bucket's exact pixels are
+ * averaged so the result isn't snapped to the bucket grid.
+ * @param img The image to process.
+ * @returns An RGB color string (e.g., "rgb(123, 45, 67)").
+ */
+export const getDominantBorderColor = (img: SourceImage): string => {
+  const pixels = getBorderPixels(img);
+  if (!pixels || pixels.length === 0) return 'rgb(0, 0, 0)';
+
+  const counts = new Uint32Array(4096);
+  const sums = new Float64Array(4096 * 3);
+  let best = 0;
+  for (let i = 0; i < pixels.length; i += 4) {
+    const r = pixels[i], g = pixels[i + 1], b = pixels[i + 2];
+    const bucket = ((r >> 4) << 8) | ((g >> 4) << 4) | (b >> 4);
+    counts[bucket]++;
+    sums[bucket * 3] += r;
+    sums[bucket * 3 + 1] += g;
+    sums[bucket * 3 + 2] += b;
+    if (counts[bucket] > counts[best]) best = bucket;
+  }
+
+  const n = counts[best];
+  return `rgb(${Math.round(sums[best * 3] / n)}, ${Math.round(sums[best * 3 + 1] / n)}, ${Math.round(sums[best * 3 + 2] / n)})`;
+};
@@ -0,0 +1,21 @@
+import type { AnyCanvas, RenderContext } from '../types';
+
+/**
+ * Creates a scratch canvas. Uses OffscreenCanvas where available so the same
+ * code runs on the main thread and inside the render worker.
+ */
+export const createCanvas = (width: number, height: number): AnyCanvas => {
+  if (typeof OffscreenCanvas !== 'undefined') {
+    return new OffscreenCanvas(width, height);
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+/**
+ * Gets a 2D context from either kind of canvas.
+ */
+export const get2DContext = (canvas: AnyCanvas, options?: CanvasRenderingContext2DSettings): RenderContext | null =>
+  (canvas as HTMLCanvasElement).getContext('2d', options) as RenderContext | null;
@@ -0,0 +1,91 @@
+import { t } from './i18n';
+
+/**
+ * Collects the image files from a paste or drop. Pasted screenshots all arrive
+ * named "image.png", so they are renamed with the time they were pasted.
+ * @param data The event's clipboard or drag data.
+ * @returns The image files, possibly none.
+ */
+export const getImageFiles = (data: DataTransfer): File[] => {
+  const stamp = new Date().toISOString().slice(0, 19).replace(/[-:]/g, '').replace('T', '_');
+  return Array.from(data.items)
+    .filter(item => item.kind === 'file' && item.type.startsWith('image/'))
+    .map(item => item.getAsFile())
+    .filter((file): file is File => file !== null)
+    .map((file, i) => {
+      if (file.name && file.name !== 'image.png') return file;
+      const extension = file.type.split('/')[1]?.replace('jpeg', 'jpg') || 'png';
+      return new File([file], `pasted_${stamp}${i > 0 ? `_${i + 1}` : ''}.${extension}`, { type: file.type });
+    });
+};
+
+/**
+ * Reads the image URLs from a drop, e.g. an image dragged from another browser tab.
+ * Uses the `text/uri-list`, falling back to the `src` of a dragged `<img>`.
+ * @returns The http(s) and data URLs, possibly none.
+ */
+export const getDroppedUrls = (data: DataTransfer): string[] => {
+  const urls = data.getData('text/uri-list')
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#'));
+  if (urls.length === 0) {
+    const html = data.getData('text/html');
+    const src = html && new DOMParser().parseFromString(html, 'text/html').querySelector('img')?.getAttribute('src');
+    if (src) urls.push(src);
+  }
+  return urls.filter(url => /^(https?:|data:image\/)/i.test(url));
+};
+
+/**
+ * Downloads an image from a URL as a file. The request is made with CORS, so
+ * the result can be drawn to a canvas and exported without tainting it.
+ * @throws An Error with a message for the user if the image can't be fetched.
+ */
+export const fetchImageFile = async (url: string): Promise<File> => {
+  const host = url.startsWith('data:') ? 'data URL' : new URL(url).host;
+  let response: Response;
+  try {
+    response = await fetch(url, { mode: 'cors', credentials: 'omit' });
+  } catch (e) {
+    // Browsers report a CORS refusal as a plain network error
+    console.error(`Error fetching ${url}:`, e);
+    throw new Error(t('import.blocked', { host }));
+  }
+  if (!response.ok) {
+    throw new Error(t('import.httpError', { host, status: String(response.status) }));
+  }
+  const blob = await response.blob();
+  const name = url.startsWith('data:')
+    ? `dropped.${blob.type.split('/')[1]?.replace('jpeg', 'jpg') || 'png'}`
+    : decodeURIComponent(new URL(url).pathname.split('/').pop() || '') || 'image';
+  return new File([blob], name, { type: blob.type });
+};
+
+/**
+ * Whether the browser can write images to the clipboard. Checked before
+ * encoding, so no work is started for a copy that can't happen.
+ */
+export const canCopyImages = (): boolean =>
+  typeof navigator.clipboard?.write === 'function' && typeof ClipboardItem !== 'undefined';
+
+/**
+ * Writes a PNG to the clipboard. Takes a promise so Safari sees the write
+ * start inside the click, before the image has finished encoding.
+ * @throws An Error with a message for the user if the browser refuses.
+ */
+export const copyPngToClipboard = async (png: Promise<Blob>): Promise<void> => {
+  if (!canCopyImages()) {
+    // Nothing will await the encode now, so its failure mustn't go unhandled
+    png.catch(() => {});
+    throw new Error(t('clipboard.unsupported'));
+  }
+  try {
+    await navigator.clipboard.write([new ClipboardItem({ 'image/png': png })]);
+  } catch (e) {
+    // An encoding failure rethrows here with its own message
+    await png;
+    console.error("Error writing to clipboard:", e);
+    throw new Error(t('clipboard.denied'));
+  }
+};
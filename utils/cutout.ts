@@ -0,0 +1,203 @@
+import type { AnyCanvas, BrushStroke, CutoutSettings, FitTransform, ImageDimensions, ImageTransform, Point, Rect, SourceImage } from '../types';
+import { createCanvas, get2DContext } from './canvas';
+import { getDrawRect, getStraightenAngle } from './geometry';
+
+export const DEFAULT_CUTOUT: CutoutSettings = {
+  enabled: false,
+  tolerance: 32,
+  feather: 2,
+  strokes: [],
+};
+
+export const MAX_CUTOUT_TOLERANCE = 128;
+export const MAX_CUTOUT_FEATHER = 10;
+
+// Longest side of the mask. It is scaled up smoothly, which also softens its edges.
+const MASK_SIZE = 1024;
+
+/**
+ * One alpha value per pixel: 255 keeps the pixel, 0 removes it.
+ */
+export interface AlphaMask {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+/**
+ * Finds the background by flood-filling in from the image's edges through
+ * pixels within `tolerance` of the median border color. Background enclosed
+ * by the subject, e.g. inside a handle, is kept, as it isn't reachable from the edges.
+ * @returns The mask at a reduced size, or null if the image can't be read.
+ */
+export const getKeyMask = (img: SourceImage, tolerance: number): AlphaMask | null => {
+  const scale = Math.min(1, MASK_SIZE / Math.max(img.width, img.height));
+  const width = Math.max(1, Math.round(img.width * scale));
+  const height = Math.max(1, Math.round(img.height * scale));
+  const ctx = get2DContext(createCanvas(width, height), { willReadFrequently: true });
+  if (!ctx) return null;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(img, 0, 0, width, height);
+  let pixels: Uint8ClampedArray;
+  try {
+    pixels = ctx.getImageData(0, 0, width, height).data;
+  } catch (e) {
+    console.error("Error reading image for background removal:", e);
+    return null;
+  }
+
+  const border: number[] = [];
+  for (let x = 0; x < width; x++) border.push(x, (height - 1) * width + x);
+  for (let y = 1; y < height - 1; y++) border.push(y * width, y * width + width - 1);
+  const key = [0, 1, 2].map(c => median(border.map(p => pixels[p * 4 + c])));
+
+  // Already transparent pixels count as background too
+  const matches = (p: number): boolean => {
+    const i = p * 4;
+    return pixels[i + 3] === 0 || (
+      Math.abs(pixels[i] - key[0]) <= tolerance &&
+      Math.abs(pixels[i + 1] - key[1]) <= tolerance &&
+      Math.abs(pixels[i + 2] - key[2]) <= tolerance
+    );
+  };
+
+  const data = new Uint8ClampedArray(width * height).fill(255);
+  const stack = new Int32Array(width * height);
+  let size = 0;
+  const visit = (p: number) => {
+    if (data[p] === 0 || !matches(p)) return;
+    data[p] = 0;
+    stack[size++] = p;
+  };
+  border.forEach(visit);
+  while (size > 0) {
+    const p = stack[--size];
+    const x = p % width;
+    if (x > 0) visit(p - 1);
+    if (x < width - 1) visit(p + 1);
+    if (p >= width) visit(p - width);
+    if (p < width * (height - 1)) visit(p + width);
+  }
+  return { width, height, data };
+};
+
+/**
+ * Sets every mask pixel within `radius` of a point.
+ */
+const stampCircle = (mask: AlphaMask, cx: number, cy: number, radius: number, value: number): void => {
+  const top = Math.max(0, Math.floor(cy - radius));
+  const bottom = Math.min(mask.height - 1, Math.ceil(cy + radius));
+  for (let y = top; y <= bottom; y++) {
+    const half = Math.sqrt(Math.max(0, radius * radius - (y - cy) * (y - cy)));
+    const left = Math.max(0, Math.floor(cx - half));
+    const right = Math.min(mask.width - 1, Math.ceil(cx + half));
+    mask.data.fill(value, y * mask.width + left, y * mask.width + right + 1);
+  }
+};
+
+/**
+ * Paints a brush stroke into the mask, stamping circles close enough together to leave no gaps.
+ */
+const paintStroke = (mask: AlphaMask, stroke: BrushStroke): void => {
+  const radius = Math.max(0.5, stroke.radius * mask.width);
+  const value = stroke.mode === 'keep' ? 255 : 0;
+  const points = stroke.points.map(p => ({ x: p.x * mask.width, y: p.y * mask.height }));
+  points.forEach((point, i) => {
+    const previous = points[i - 1] ?? point;
+    const steps = Math.max(1, Math.ceil(Math.hypot(point.x - previous.x, point.y - previous.y) / (radius / 2)));
+    for (let s = 1; s <= steps; s++) {
+      stampCircle(mask, previous.x + (point.x - previous.x) * s / steps, previous.y + (point.y - previous.y) * s / steps, radius, value);
+    }
+  });
+};
+
+/**
+ * Blurs the mask with two passes of a separable box blur, which is close to a Gaussian.
+ */
+const featherMask = (mask: AlphaMask, radius: number): void => {
+  const { width, height, data } = mask;
+  const r = Math.round(radius);
+  if (r <= 0) return;
+  const line = new Float32Array(Math.max(width, height));
+  const blurLine = (start: number, stride: number, length: number) => {
+    for (let i = 0; i < length; i++) line[i] = data[start + i * stride];
+    let sum = 0;
+    for (let i = -r; i <= r; i++) sum += line[Math.min(length - 1, Math.max(0, i))];
+    for (let i = 0; i < length; i++) {
+      data[start + i * stride] = sum / (2 * r + 1);
+      sum += line[Math.min(length - 1, i + r + 1)] - line[Math.max(0, i - r)];
+    }
+  };
+  for (let pass = 0; pass < 2; pass++) {
+    for (let y = 0; y < height; y++) blurLine(y * width, 1, width);
+    for (let x = 0; x < width; x++) blurLine(x, width, height);
+  }
+};
+
+/**
+ * Draws the source with its keyed-out background made transparent.
+ * @param img The source, or a full-resolution part of it.
+ * @param keyMask The flood-filled mask from `getKeyMask`, which is left unchanged.
+ * @param region The part of the source `img` covers, normalized. Defaults to all of it.
+ * @returns A new canvas of the image's size, or null if a 2D context is unavailable.
+ */
+export const createCutoutCanvas = (
+  img: SourceImage,
+  keyMask: AlphaMask,
+  settings: CutoutSettings,
+  region: Rect = { x: 0, y: 0, width: 1, height: 1 }
+): AnyCanvas | null => {
+  const mask: AlphaMask = { ...keyMask, data: keyMask.data.slice() };
+  settings.strokes.forEach(stroke => paintStroke(mask, stroke));
+  featherMask(mask, settings.feather);
+
+  const maskCanvas = createCanvas(mask.width, mask.height);
+  const maskCtx = get2DContext(maskCanvas);
+  const canvas = createCanvas(img.width, img.height);
+  const ctx = get2DContext(canvas);
+  if (!maskCtx || !ctx) return null;
+  const imageData = maskCtx.createImageData(mask.width, mask.height);
+  for (let i = 0; i < mask.data.length; i++) imageData.data[i * 4 + 3] = mask.data[i];
+  maskCtx.putImageData(imageData, 0, 0);
+
+  ctx.drawImage(img, 0, 0);
+  ctx.globalCompositeOperation = 'destination-in';
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(
+    maskCanvas,
+    region.x * mask.width, region.y * mask.height, region.width * mask.width, region.height * mask.height,
+    0, 0, img.width, img.height
+  );
+  return canvas;
+};
+
+/**
+ * Maps a point in the output frame back to the unrotated source, undoing the
+ * framing, the straighten angle, the flips and the quarter-turn rotation.
+ * @param source The dimensions of the oriented source image.
+ * @returns The point normalized to the unrotated source, which may lie outside 0–1.
+ */
+export const toSourcePoint = (point: Point, source: ImageDimensions, fit: FitTransform, zoom: number, pan: Point, transform: ImageTransform): Point => {
+  const rect = getDrawRect(source, fit, zoom, pan, transform);
+  const cx = rect.x + rect.width / 2;
+  const cy = rect.y + rect.height / 2;
+  const angle = -getStraightenAngle(transform);
+  const dx = point.x - cx;
+  const dy = point.y - cy;
+  let u = (cx + dx * Math.cos(angle) - dy * Math.sin(angle) - rect.x) / rect.width;
+  let v = (cy + dx * Math.sin(angle) + dy * Math.cos(angle) - rect.y) / rect.height;
+  if (transform.flipH) u = 1 - u;
+  if (transform.flipV) v = 1 - v;
+  switch (transform.rotation) {
+    case 90: return { x: v, y: 1 - u };
+    case 180: return { x: 1 - u, y: 1 - v };
+    case 270: return { x: 1 - v, y: u };
+    default: return { x: u, y: v };
+  }
+};
@@ -0,0 +1,260 @@
+import type { FitTransform, ImageDimensions, ImageMetadata, ImageTransform, Point, Rect, SourceDetail } from '../types';
+import { createCanvas, get2DContext } from './canvas';
+import { toSourcePoint } from './cutout';
+import { formatDimensions, formatMegapixels } from './format';
+import { getStraightenScale } from './geometry';
+import { t } from './i18n';
+import { parseMetadata, resetOrientation } from './metadata';
+import { getOrientedSize } from './transform';
+
+// Longest side of the working copy images are edited and previewed from
+export const MAX_WORKING_SIZE = 4096;
+
+// Largest canvas every mainstream browser can allocate. Safari on iOS sets this limit.
+export const MAX_CANVAS_AREA = 16_777_216;
+
+// Largest image decoded at all. Fully decoded, it takes 1 GB of memory.
+export const MAX_IMAGE_PIXELS = 250_000_000;
+
+// Source pixels kept around a detail's visible region, so resampling filters have their neighbours
+const DETAIL_MARGIN = 4;
+
+export interface DecodedImage {
+  /** The image with its EXIF orientation already applied, reduced to `MAX_WORKING_SIZE` if larger. */
+  bitmap: ImageBitmap;
+  metadata: ImageMetadata;
+  /** The full size of the oriented image. */
+  size: ImageDimensions;
+}
+
+/**
+ * Draws the stored pixels upright according to an EXIF orientation value (2 to 8).
+ */
+const applyOrientation = async (bitmap: ImageBitmap, orientation: number): Promise<ImageBitmap> => {
+  const { width: w, height: h } = bitmap;
+  const swap = orientation >= 5;
+  const canvas = createCanvas(swap ? h : w, swap ? w : h);
+  const ctx = get2DContext(canvas);
+  if (!ctx) return bitmap;
+
+  switch (orientation) {
+    case 2: ctx.setTransform(-1, 0, 0, 1, w, 0); break;
+    case 3: ctx.setTransform(-1, 0, 0, -1, w, h); break;
+    case 4: ctx.setTransform(1, 0, 0, -1, 0, h); break;
+    case 5: ctx.setTransform(0, 1, 1, 0, 0, 0); break;
+    case 6: ctx.setTransform(0, 1, -1, 0, h, 0); break;
+    case 7: ctx.setTransform(0, -1, -1, 0, h, w); break;
+    case 8: ctx.setTransform(0, -1, 1, 0, 0, w); break;
+  }
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return createImageBitmap(canvas);
+};
+
+/**
+ * Maps a normalized point on the stored pixels to where an EXIF orientation puts it.
+ */
+const orientPoint = ({ x, y }: Point, orientation: number): Point => {
+  switch (orientation) {
+    case 2: return { x: 1 - x, y };
+    case 3: return { x: 1 - x, y: 1 - y };
+    case 4: return { x, y: 1 - y };
+    case 5: return { x: y, y: x };
+    case 6: return { x: 1 - y, y: x };
+    case 7: return { x: 1 - y, y: 1 - x };
+    case 8: return { x: y, y: 1 - x };
+    default: return { x, y };
+  }
+};
+
+/**
+ * The inverse of `orientPoint`.
+ */
+const unorientPoint = ({ x, y }: Point, orientation: number): Point => {
+  switch (orientation) {
+    case 6: return { x: y, y: 1 - x };
+    case 8: return { x: 1 - y, y: x };
+    // The rest are their own inverses
+    default: return orientPoint({ x, y }, orientation);
+  }
+};
+
+const mapRect = (rect: Rect, map: (point: Point) => Point): Rect => {
+  const a = map({ x: rect.x, y: rect.y });
+  const b = map({ x: rect.x + rect.width, y: rect.y + rect.height });
+  return { x: Math.min(a.x, b.x), y: Math.min(a.y, b.y), width: Math.abs(b.x - a.x), height: Math.abs(b.y - a.y) };
+};
+
+/**
+ * Reads the metadata and, if needed, resets the orientation tag so the browser decodes the stored pixels as they are.
+ */
+const readSource = async (file: Blob): Promise<{ metadata: ImageMetadata; source: Blob }> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const { metadata, orientationPatch } = parseMetadata(bytes);
+  const source = orientationPatch ? new Blob([resetOrientation(bytes, orientationPatch)], { type: file.type }) : file;
+  return { metadata, source };
+};
+
+/**
+ * Reads an image's size from its header through an `<img>`, which unlike
+ * `createImageBitmap` doesn't decode the pixels.
+ * @throws If the browser can't read the file as an image.
+ */
+export const readImageSize = (file: Blob): Promise<ImageDimensions> => new Promise((resolve, reject) => {
+  const url = URL.createObjectURL(file);
+  const img = new Image();
+  img.onload = () => {
+    URL.revokeObjectURL(url);
+    resolve({ width: img.naturalWidth, height: img.naturalHeight });
+  };
+  img.onerror = () => {
+    URL.revokeObjectURL(url);
+    reject(new Error('Image could not be read'));
+  };
+  img.src = url;
+});
+
+/**
+ * Checks an image's size against `MAX_IMAGE_PIXELS`.
+ * @returns A message for the user if the image is too large, or null.
+ */
+export const getImageLimitError = (size: ImageDimensions): string | null => {
+  const pixels = size.width * size.height;
+  if (pixels <= MAX_IMAGE_PIXELS) return null;
+  return t('decode.tooLarge', { size: formatDimensions(size), megapixels: formatMegapixels(pixels), limit: formatMegapixels(MAX_IMAGE_PIXELS) });
+};
+
+/**
+ * Calculates the size of the working copy of an image: the image itself, or
+ * reduced to fit `MAX_WORKING_SIZE` on its longest side.
+ */
+export const getWorkingSize = (size: ImageDimensions): ImageDimensions => {
+  const scale = Math.min(1, MAX_WORKING_SIZE / Math.max(size.width, size.height));
+  return {
+    width: Math.max(1, Math.round(size.width * scale)),
+    height: Math.max(1, Math.round(size.height * scale)),
+  };
+};
+
+const describeDecodeFailure = (size: ImageDimensions): string =>
+  t('decode.failed', { size: formatDimensions(size), megapixels: formatMegapixels(size.width * size.height) });
+
+/**
+ * Decodes an image file upright, as a working copy no larger than `MAX_WORKING_SIZE`, and reads its metadata.
+ * The orientation tag is reset before decoding and applied here instead, so the
+ * result is the same whether or not the browser honours EXIF orientation itself.
+ * @param file The image file.
+ * @returns The oriented bitmap, owned by the caller, the file's metadata and the image's full size.
+ * @throws An Error with a message for the user if the image is too large or can't be decoded.
+ */
+export const decodeImageFile = async (file: Blob): Promise<DecodedImage> => {
+  let metadata: ImageMetadata;
+  let source: Blob;
+  try {
+    ({ metadata, source } = await readSource(file));
+  } catch (e) {
+    console.error("Error reading image file:", e);
+    throw new Error(t('decode.readFailed'));
+  }
+  let stored: ImageDimensions;
+  try {
+    stored = await readImageSize(source);
+  } catch (e) {
+    console.error("Error reading image size:", e);
+    throw new Error(t('decode.notImage'));
+  }
+  const size = metadata.orientation >= 5 ? { width: stored.height, height: stored.width } : stored;
+  const limitError = getImageLimitError(size);
+  if (limitError) throw new Error(limitError);
+
+  const working = getWorkingSize(stored);
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = working.width < stored.width
+      ? await createImageBitmap(source, { resizeWidth: working.width, resizeHeight: working.height, resizeQuality: 'high' })
+      : await createImageBitmap(source);
+  } catch (e) {
+    console.error("Error decoding image:", e);
+    throw new Error(describeDecodeFailure(size));
+  }
+  if (metadata.orientation === 1) {
+    return { bitmap, metadata, size };
+  }
+  return { bitmap: await applyOrientation(bitmap, metadata.orientation), metadata, size };
+};
+
+/**
+ * Works out whether an export needs more pixels than the working copy holds
+ * and, if so, which part of the source it shows and what size to decode that part at.
+ * @param sourceSize The full size of the unrotated source.
+ * @returns The region, normalized to the unrotated source, and its decode size, or null if the working copy is enough.
+ */
+export const planSourceDetail = (
+  sourceSize: ImageDimensions,
+  target: ImageDimensions,
+  fit: FitTransform,
+  zoom: number,
+  pan: Point,
+  transform: ImageTransform
+): { region: Rect; size: ImageDimensions } | null => {
+  const oriented = getOrientedSize(sourceSize, transform);
+  // Output pixels per full-size source pixel
+  const scale = fit.scale * zoom * getStraightenScale(oriented, transform);
+  const workingScale = getWorkingSize(sourceSize).width / sourceSize.width;
+  if (workingScale >= 1 || scale <= workingScale) return null;
+
+  const corners = [{ x: 0, y: 0 }, { x: target.width, y: 0 }, { x: 0, y: target.height }, { x: target.width, y: target.height }]
+    .map(point => toSourcePoint(point, oriented, fit, zoom, pan, transform));
+  const decodeScale = Math.min(1, scale);
+  const marginX = DETAIL_MARGIN / decodeScale / sourceSize.width;
+  const marginY = DETAIL_MARGIN / decodeScale / sourceSize.height;
+  const left = Math.max(0, Math.min(...corners.map(p => p.x)) - marginX);
+  const top = Math.max(0, Math.min(...corners.map(p => p.y)) - marginY);
+  const right = Math.min(1, Math.max(...corners.map(p => p.x)) + marginX);
+  const bottom = Math.min(1, Math.max(...corners.map(p => p.y)) + marginY);
+  if (right <= left || bottom <= top) return null;
+
+  const width = (right - left) * sourceSize.width * decodeScale;
+  const height = (bottom - top) * sourceSize.height * decodeScale;
+  const fits = Math.min(1, Math.sqrt(MAX_CANVAS_AREA / (width * height)));
+  return {
+    region: { x: left, y: top, width: right - left, height: bottom - top },
+    size: { width: Math.max(1, Math.round(width * fits)), height: Math.max(1, Math.round(height * fits)) },
+  };
+};
+
+/**
+ * Decodes part of an image file upright, for drawing at full resolution.
+ * @param region The part of the oriented image to decode, normalized.
+ * @param size The size to decode the part at.
+ * @returns The part, owned by the caller, with the region it covers once rounded to whole stored pixels.
+ * @throws An Error with a message for the user if the part can't be decoded.
+ */
+export const decodeImageRegion = async (file: Blob, region: Rect, size: ImageDimensions): Promise<SourceDetail> => {
+  const { metadata, source } = await readSource(file);
+  const { orientation } = metadata;
+  const stored = await readImageSize(source);
+  const storedRegion = mapRect(region, point => unorientPoint(point, orientation));
+  const sx = Math.floor(storedRegion.x * stored.width);
+  const sy = Math.floor(storedRegion.y * stored.height);
+  const sw = Math.max(1, Math.ceil((storedRegion.x + storedRegion.width) * stored.width) - sx);
+  const sh = Math.max(1, Math.ceil((storedRegion.y + storedRegion.height) * stored.height) - sy);
+  const swap = orientation >= 5;
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(source, sx, sy, sw, sh, {
+      resizeWidth: swap ? size.height : size.width,
+      resizeHeight: swap ? size.width : size.height,
+      resizeQuality: 'high',
+    });
+  } catch (e) {
+    console.error("Error decoding image region:", e);
+    throw new Error(describeDecodeFailure(swap ? { width: stored.height, height: stored.width } : stored));
+  }
+  const covered = { x: sx / stored.width, y: sy / stored.height, width: sw / stored.width, height: sh / stored.height };
+  return {
+    image: orientation === 1 ? bitmap : await applyOrientation(bitmap, orientation),
+    region: mapRect(covered, point => orientPoint(point, orientation)),
+  };
+};
@@ -0,0 +1,19 @@
+// How long the object URL stays valid after the click. Firefox and Safari read
+// the blob some time later, so revoking it on the next tick can break the download.
+const REVOKE_DELAY_MS = 10_000;
+
+/**
+ * Triggers a browser download for a Blob.
+ * @param blob The file contents.
+ * @param fileName The suggested file name.
+ */
+export const downloadBlob = (blob: Blob, fileName: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+};
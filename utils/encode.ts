@@ -0,0 +1,77 @@
+import type { AnyCanvas, EncodeResult, ExportSettings, OutputFormat } from '../types';
+import { t } from './i18n';
+
+export const OUTPUT_FORMATS: Record<OutputFormat, { mime: string; extension: string; label: string; lossy: boolean; alpha: boolean }> = {
+  jpeg: { mime: 'image/jpeg', extension: 'jpg', label: 'JPEG', lossy: true, alpha: false },
+  png: { mime: 'image/png', extension: 'png', label: 'PNG', lossy: false, alpha: true },
+  webp: { mime: 'image/webp', extension: 'webp', label: 'WebP', lossy: true, alpha: true },
+};
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  format: 'jpeg',
+  quality: 0.9,
+  maxKB: null,
+};
+
+const MIN_QUALITY = 0.05;
+const QUALITY_SEARCH_STEPS = 7;
+
+/**
+ * Encodes either kind of canvas into a Blob.
+ * @returns The encoded image, or null if the browser could not encode it.
+ */
+export const canvasToBlob = (canvas: AnyCanvas, type: string, quality?: number): Promise<Blob | null> => {
+  if ('convertToBlob' in canvas) {
+    return canvas.convertToBlob({ type, quality }).catch(() => null);
+  }
+  return new Promise(resolve => canvas.toBlob(resolve, type, quality));
+};
+
+/**
+ * Encodes a canvas with the given export settings. When a size budget is set
+ * for a lossy format, binary-searches for the highest quality that fits.
+ * @param canvas The rendered output frame.
+ * @param settings The format, quality and size budget.
+ * @returns The encoded image and the quality used. If even the lowest quality
+ * exceeds the budget, the smallest result is returned with `withinBudget: false`.
+ */
+export const encodeCanvas = async (canvas: AnyCanvas, settings: ExportSettings): Promise<EncodeResult> => {
+  const { mime, lossy, label } = OUTPUT_FORMATS[settings.format];
+
+  const encode = async (quality: number): Promise<Blob> => {
+    const blob = await canvasToBlob(canvas, mime, quality);
+    if (!blob) throw new Error(t('encode.failed'));
+    // Browsers fall back to PNG for formats they can't encode
+    if (blob.type !== mime) throw new Error(t('encode.unsupported', { format: label }));
+    return blob;
+  };
+
+  const budget = settings.maxKB ? settings.maxKB * 1024 : null;
+  const first = await encode(settings.quality);
+  if (budget === null || first.size <= budget) {
+    return { blob: first, quality: settings.quality, withinBudget: true };
+  }
+  if (!lossy) {
+    return { blob: first, quality: settings.quality, withinBudget: false };
+  }
+
+  let low = MIN_QUALITY;
+  let high = settings.quality;
+  let best: { blob: Blob; quality: number } | null = null;
+  for (let i = 0; i < QUALITY_SEARCH_STEPS; i++) {
+    const quality = (low + high) / 2;
+    const blob = await encode(quality);
+    if (blob.size <= budget) {
+      best = { blob, quality };
+      low = quality;
+    } else {
+      high = quality;
+    }
+  }
+  if (best) {
+    return { ...best, withinBudget: true };
+  }
+
+  const smallest = await encode(MIN_QUALITY);
+  return { blob: smallest, quality: MIN_QUALITY, withinBudget: smallest.size <= budget };
+};
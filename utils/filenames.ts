@@ -0,0 +1,33 @@
+import type { ImageDimensions } from '../types';
+
+/**
+ * Strips the extension from a file name. Names without an extension are returned unchanged.
+ */
+export const getBaseName = (fileName: string): string => {
+  const dot = fileName.lastIndexOf('.');
+  return dot > 0 ? fileName.slice(0, dot) : fileName;
+};
+
+/**
+ * Builds the download name for a resized image, e.g. "photo_1040x1040.jpg".
+ */
+export const getOutputFilename = (sourceName: string, size: ImageDimensions, extension: string): string =>
+  `${getBaseName(sourceName)}_${size.width}x${size.height}.${extension}`;
+
+/**
+ * Returns a file name not yet in `used`, appending "-2", "-3", ... before the
+ * extension on collision, and records it. Comparison ignores case so archives
+ * extract cleanly on case-insensitive file systems.
+ */
+export const makeUniqueFilename = (fileName: string, used: Set<string>): string => {
+  const dot = fileName.lastIndexOf('.');
+  const base = dot > 0 ? fileName.slice(0, dot) : fileName;
+  const extension = dot > 0 ? fileName.slice(dot) : '';
+
+  let candidate = fileName;
+  for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+    candidate = `${base}-${n}${extension}`;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+};
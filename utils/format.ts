@@ -0,0 +1,22 @@
+import type { ImageDimensions } from '../types';
+import { formatNumber } from './i18n';
+
+/**
+ * Formats a byte count for display in the current language, e.g. "845 B", "312.4 KB" or "2.1 MB".
+ */
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${formatNumber(bytes)} B`;
+  if (bytes < 1024 * 1024) return `${formatNumber(bytes / 1024, 1)} KB`;
+  return `${formatNumber(bytes / (1024 * 1024), 1)} MB`;
+};
+
+/**
+ * Formats a pixel count in millions for display in the current language, e.g. "24.2".
+ */
+export const formatMegapixels = (pixels: number): string => formatNumber(pixels / 1_000_000, 1);
+
+/**
+ * Formats a width and height for display in the current language, e.g. "1,040 x 1,040 px".
+ */
+export const formatDimensions = ({ width, height }: ImageDimensions): string =>
+  `${formatNumber(width)} x ${formatNumber(height)} px`;
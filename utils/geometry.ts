@@ -0,0 +1,141 @@
+import type { Alignment, FitMode, FitTransform, ImageDimensions, ImageTransform, Point, Rect } from '../types';
+
+export const MIN_ZOOM = 0.2;
+export const MAX_ZOOM = 10;
+
+/**
+ * Calculates the contain-fit of the source image inside the target frame.
+ * @param source The dimensions of the source image.
+ * @param target The dimensions of the output frame.
+ * @returns The scale and the top-left offset of the fitted image.
+ */
+export const getInitialFit = (source: ImageDimensions, target: ImageDimensions): FitTransform => {
+  const scale = Math.min(target.width / source.width, target.height / source.height);
+  return {
+    scale,
+    x: (target.width - source.width * scale) / 2,
+    y: (target.height - source.height * scale) / 2,
+  };
+};
+
+/**
+ * Converts the straighten angle to radians.
+ */
+export const getStraightenAngle = (transform: ImageTransform): number => transform.straighten * Math.PI / 180;
+
+/**
+ * Calculates how much a straightened image is enlarged when auto-crop is on,
+ * so that its rotated corners stay outside the area the unrotated image covered.
+ * @param source The dimensions of the oriented source image.
+ * @returns The extra scale factor, 1 when there is nothing to crop.
+ */
+export const getStraightenScale = (source: ImageDimensions, transform: ImageTransform): number => {
+  if (!transform.autoCrop || transform.straighten === 0) return 1;
+  const angle = Math.abs(getStraightenAngle(transform));
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return Math.max(cos + sin * source.height / source.width, cos + sin * source.width / source.height);
+};
+
+/**
+ * Calculates the size of the zoomed image in the output frame, as the
+ * bounding box of its rotated rect when it is straightened.
+ * @param source The dimensions of the oriented source image.
+ * @returns The bounding box size, in output pixels.
+ */
+export const getBoundingSize = (source: ImageDimensions, fit: FitTransform, zoom: number, transform: ImageTransform): ImageDimensions => {
+  const currentScale = fit.scale * zoom * getStraightenScale(source, transform);
+  const width = source.width * currentScale;
+  const height = source.height * currentScale;
+  const angle = getStraightenAngle(transform);
+  const cos = Math.abs(Math.cos(angle));
+  const sin = Math.abs(Math.sin(angle));
+  return { width: width * cos + height * sin, height: width * sin + height * cos };
+};
+
+/**
+ * Limits the pan so the zoomed image never leaves a gap on an axis where it
+ * covers the frame, and never leaves the frame on an axis where it is smaller.
+ * A straightened image is clamped by the bounding box of its rotated rect.
+ * @param source The dimensions of the oriented source image.
+ * @returns The clamped pan, in output pixels.
+ */
+export const clampPan = (source: ImageDimensions, target: ImageDimensions, fit: FitTransform, zoom: number, pan: Point, transform: ImageTransform): Point => {
+  const bounds = getBoundingSize(source, fit, zoom, transform);
+  const maxPanX = Math.abs(bounds.width - target.width) / 2;
+  const maxPanY = Math.abs(bounds.height - target.height) / 2;
+  return {
+    x: Math.max(-maxPanX, Math.min(maxPanX, pan.x)),
+    y: Math.max(-maxPanY, Math.min(maxPanY, pan.y)),
+  };
+};
+
+/**
+ * Calculates where the zoomed and panned image is drawn in the output frame,
+ * before any straightening, which rotates it about the rect's center.
+ * @param source The dimensions of the oriented source image.
+ * @returns The top-left corner and size of the image, in output pixels.
+ */
+export const getDrawRect = (source: ImageDimensions, fit: FitTransform, zoom: number, pan: Point, transform: ImageTransform): Rect => {
+  const currentScale = fit.scale * zoom * getStraightenScale(source, transform);
+  const width = source.width * currentScale;
+  const height = source.height * currentScale;
+  return {
+    x: fit.x + pan.x - (width - fit.scale * source.width) / 2,
+    y: fit.y + pan.y - (height - fit.scale * source.height) / 2,
+    width,
+    height,
+  };
+};
+
+/**
+ * Calculates the pan that keeps the image point under `anchor` in place when
+ * the zoom changes, so zooming follows the cursor or the pinch midpoint.
+ * @param anchor The anchor point before the zoom, in output pixels.
+ * @param movedAnchor Where that image point should end up, e.g. the new pinch midpoint. Defaults to `anchor`.
+ * @returns The new pan, in output pixels. Not clamped.
+ */
+export const getAnchoredPan = (target: ImageDimensions, zoom: number, pan: Point, nextZoom: number, anchor: Point, movedAnchor: Point = anchor): Point => {
+  // At zero pan the image is centered in the frame
+  const centerX = target.width / 2 + pan.x;
+  const centerY = target.height / 2 + pan.y;
+  const ratio = nextZoom / zoom;
+  return {
+    x: movedAnchor.x - (anchor.x - centerX) * ratio - target.width / 2,
+    y: movedAnchor.y - (anchor.y - centerY) * ratio - target.height / 2,
+  };
+};
+
+/**
+ * Calculates the pan that lines the image's bounding box up with an edge or
+ * the center of the frame, keeping the pan on the other axis.
+ * @param source The dimensions of the oriented source image.
+ * @returns The new pan, in output pixels.
+ */
+export const getAlignedPan = (source: ImageDimensions, target: ImageDimensions, fit: FitTransform, zoom: number, pan: Point, transform: ImageTransform, alignment: Alignment): Point => {
+  const bounds = getBoundingSize(source, fit, zoom, transform);
+  const offsetX = (bounds.width - target.width) / 2;
+  const offsetY = (bounds.height - target.height) / 2;
+  switch (alignment) {
+    case 'left': return { x: offsetX, y: pan.y };
+    case 'center': return { x: 0, y: pan.y };
+    case 'right': return { x: -offsetX, y: pan.y };
+    case 'top': return { x: pan.x, y: offsetY };
+    case 'middle': return { x: pan.x, y: 0 };
+    case 'bottom': return { x: pan.x, y: -offsetY };
+  }
+};
+
+/**
+ * Calculates the zoom at which the image's bounding box spans the frame's width, its height, or covers it.
+ * @param source The dimensions of the oriented source image.
+ * @returns The zoom, limited to the supported range.
+ */
+export const getFitZoom = (source: ImageDimensions, target: ImageDimensions, fit: FitTransform, transform: ImageTransform, mode: FitMode): number => {
+  // Measures the same straightened bounding box the alignment does, which grows in step with the zoom
+  const bounds = getBoundingSize(source, fit, 1, transform);
+  const widthZoom = target.width / bounds.width;
+  const heightZoom = target.height / bounds.height;
+  const zoom = mode === 'width' ? widthZoom : mode === 'height' ? heightZoom : Math.max(widthZoom, heightZoom);
+  return Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, zoom));
+};
@@ -0,0 +1,132 @@
+import type { AvatarMask, FitTransform, GuideLines, GuideSettings, ImageDimensions, ImageTransform, Point, Rect, SafeZone } from '../types';
+import { MAX_ZOOM, MIN_ZOOM, getDrawRect } from './geometry';
+import type { MessageKey } from './i18n';
+
+export const SAFE_ZONE_TEMPLATES: SafeZone[] = [
+  { id: 'text-margin', name: 'guides.zone.textMargin', insets: { top: 5, right: 5, bottom: 5, left: 5 } },
+  { id: 'story', name: 'guides.zone.story', insets: { top: 14, right: 5, bottom: 20, left: 5 } },
+  { id: 'short-video', name: 'guides.zone.shortVideo', insets: { top: 10, right: 15, bottom: 25, left: 5 } },
+];
+
+export const AVATAR_MASKS: { mask: AvatarMask; label: MessageKey }[] = [
+  { mask: 'none', label: 'common.hidden' },
+  { mask: 'circle', label: 'guides.avatar.circle' },
+  { mask: 'rounded', label: 'guides.avatar.rounded' },
+];
+
+export const DEFAULT_GUIDE_SETTINGS: GuideSettings = {
+  thirds: false,
+  center: false,
+  avatar: 'none',
+  safeZone: null,
+  snap: true,
+};
+
+// Corner radius of the rounded-square avatar mask, as a fraction of its side
+export const ROUNDED_AVATAR_RADIUS = 0.22;
+
+/**
+ * Converts a safe zone's percentage insets to a rect in output pixels.
+ */
+export const getSafeZoneRect = (target: ImageDimensions, zone: SafeZone): Rect => {
+  const left = target.width * zone.insets.left / 100;
+  const top = target.height * zone.insets.top / 100;
+  return {
+    x: left,
+    y: top,
+    width: Math.max(0, target.width - left - target.width * zone.insets.right / 100),
+    height: Math.max(0, target.height - top - target.height * zone.insets.bottom / 100),
+  };
+};
+
+/**
+ * Collects the lines the image snaps to: the frame's edges and center, plus
+ * the thirds and safe-zone edges when those guides are shown.
+ */
+export const getGuideLines = (target: ImageDimensions, settings: GuideSettings): GuideLines => {
+  const vertical = [0, target.width / 2, target.width];
+  const horizontal = [0, target.height / 2, target.height];
+  if (settings.thirds) {
+    vertical.push(target.width / 3, target.width * 2 / 3);
+    horizontal.push(target.height / 3, target.height * 2 / 3);
+  }
+  if (settings.safeZone) {
+    const zone = getSafeZoneRect(target, settings.safeZone);
+    vertical.push(zone.x, zone.x + zone.width);
+    horizontal.push(zone.y, zone.y + zone.height);
+  }
+  return { vertical, horizontal };
+};
+
+/**
+ * Finds the smallest shift that puts one of the positions on one of the lines.
+ * @returns The shift, or 0 if nothing is within the threshold.
+ */
+const getSnapOffset = (positions: number[], lines: number[], threshold: number): number => {
+  let best = 0;
+  let bestDistance = threshold;
+  positions.forEach(position => lines.forEach(line => {
+    const distance = Math.abs(line - position);
+    if (distance <= bestDistance) {
+      best = line - position;
+      bestDistance = distance;
+    }
+  }));
+  return best;
+};
+
+/**
+ * Finds a zoom close to `zoom` at which an edge of the image lands on a line,
+ * keeping the image center where it is.
+ */
+const getSnappedZoom = (center: number, size: number, zoom: number, lines: number[], threshold: number): number => {
+  // Size of the image at zoom 1
+  const unit = size / zoom;
+  let best = zoom;
+  let bestDistance = threshold;
+  lines.forEach(line => {
+    const candidate = 2 * Math.abs(line - center) / unit;
+    // Each edge moves by half the change in size
+    const distance = Math.abs(candidate - zoom) * unit / 2;
+    if (candidate >= MIN_ZOOM && candidate <= MAX_ZOOM && distance <= bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  });
+  return best;
+};
+
+/**
+ * Nudges a proposed view so the image's edges or center line up with nearby guide lines.
+ * Uses the image's unstraightened rect.
+ * @param source The dimensions of the oriented source image.
+ * @param threshold How close, in output pixels, an edge must be to snap.
+ * @param withZoom Also snap the zoom, for zoom gestures. Drags only snap the pan.
+ */
+export const snapView = (
+  source: ImageDimensions,
+  fit: FitTransform,
+  transform: ImageTransform,
+  lines: GuideLines,
+  view: { zoom: number; pan: Point },
+  threshold: number,
+  withZoom: boolean
+): { zoom: number; pan: Point } => {
+  let { zoom } = view;
+  if (withZoom) {
+    const rect = getDrawRect(source, fit, zoom, view.pan, transform);
+    const snappedX = getSnappedZoom(rect.x + rect.width / 2, rect.width, zoom, lines.vertical, threshold);
+    zoom = snappedX !== zoom
+      ? snappedX
+      : getSnappedZoom(rect.y + rect.height / 2, rect.height, zoom, lines.horizontal, threshold);
+  }
+
+  const rect = getDrawRect(source, fit, zoom, view.pan, transform);
+  return {
+    zoom,
+    pan: {
+      x: view.pan.x + getSnapOffset([rect.x, rect.x + rect.width / 2, rect.x + rect.width], lines.vertical, threshold),
+      y: view.pan.y + getSnapOffset([rect.y, rect.y + rect.height / 2, rect.y + rect.height], lines.horizontal, threshold),
+    },
+  };
+};
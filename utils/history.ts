@@ -0,0 +1,56 @@
+import type { EditSnapshot } from '../types';
+
+// Oldest entries are dropped beyond this many undo steps
+const HISTORY_LIMIT = 100;
+
+/**
+ * Undo and redo stacks around the current state.
+ */
+export interface History<T> {
+  past: T[];
+  present: T;
+  future: T[];
+}
+
+export const createHistory = <T>(present: T): History<T> => ({ past: [], present, future: [] });
+
+/**
+ * Makes `next` the present, pushing the old present onto the undo stack and clearing redo.
+ */
+export const pushHistory = <T>(history: History<T>, next: T): History<T> => ({
+  past: [...history.past, history.present].slice(-HISTORY_LIMIT),
+  present: next,
+  future: [],
+});
+
+/**
+ * Steps back one entry. Returns the same history when there is nothing to undo.
+ */
+export const undoHistory = <T>(history: History<T>): History<T> => {
+  if (history.past.length === 0) return history;
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future],
+  };
+};
+
+/**
+ * Steps forward one entry. Returns the same history when there is nothing to redo.
+ */
+export const redoHistory = <T>(history: History<T>): History<T> => {
+  if (history.future.length === 0) return history;
+  return {
+    past: [...history.past, history.present],
+    present: history.future[0],
+    future: history.future.slice(1),
+  };
+};
+
+/**
+ * Whether two snapshots are the same edit. State updates always replace the
+ * objects they change, so comparing references is enough.
+ */
+export const isSameEdit = (a: EditSnapshot, b: EditSnapshot): boolean =>
+  a.zoom === b.zoom && a.pan === b.pan && a.transform === b.transform && a.outputViews === b.outputViews &&
+  a.adjustments === b.adjustments && a.cutout === b.cutout;
@@ -0,0 +1,124 @@
+/// <reference types="vite/client" />
+import th from '../locales/th';
+
+const LANGUAGE_KEY = 'lineresize.language';
+
+/**
+ * The UI strings are keyed by the Thai catalog, which every other catalog must match.
+ */
+export type MessageKey = keyof typeof th.messages;
+
+/**
+ * One language's UI strings. Messages may contain `{name}` placeholders, filled in by `t`.
+ */
+export interface Catalog {
+  /** BCP 47 language code, matched against the browser's preferred languages. */
+  language: string;
+  /** The language's name in itself, as shown in the language switcher. */
+  name: string;
+  messages: Record<MessageKey, string>;
+}
+
+// Every file in locales/ is a catalog, so adding a language needs no change here
+const modules = import.meta.glob<Catalog>('../locales/*.ts', { eager: true, import: 'default' });
+
+export const CATALOGS: Catalog[] = Object.values(modules).sort((a, b) => a.language.localeCompare(b.language));
+
+// Browsers that prefer none of the catalogs' languages get English, if it's available
+const FALLBACK_LANGUAGE = 'en';
+
+const findCatalog = (language: string): Catalog | undefined =>
+  CATALOGS.find(catalog => catalog.language.toLowerCase() === language.toLowerCase());
+
+/**
+ * Picks the catalog that best matches the browser's preferred languages, trying
+ * each one exactly and then by its primary subtag, e.g. "en" for "en-GB".
+ */
+export const detectLanguage = (): string => {
+  const preferred = typeof navigator === 'undefined' ? [] : navigator.languages ?? [navigator.language];
+  for (const language of preferred) {
+    const match = findCatalog(language) ?? findCatalog(language.split('-')[0]);
+    if (match) return match.language;
+  }
+  return (findCatalog(FALLBACK_LANGUAGE) ?? th).language;
+};
+
+/**
+ * Reads the chosen language from localStorage, or detects one from the browser.
+ */
+export const loadLanguage = (): string => {
+  // Render workers have no localStorage and are told the language by the main thread
+  if (typeof localStorage === 'undefined') return detectLanguage();
+  try {
+    const stored = localStorage.getItem(LANGUAGE_KEY);
+    if (stored && findCatalog(stored)) return stored;
+  } catch (e) {
+    console.error("Error reading language:", e);
+  }
+  return detectLanguage();
+};
+
+export const saveLanguage = (language: string): void => {
+  try {
+    localStorage.setItem(LANGUAGE_KEY, language);
+  } catch (e) {
+    console.error("Error saving language:", e);
+  }
+};
+
+let current: Catalog = findCatalog(loadLanguage()) ?? th;
+const listeners = new Set<() => void>();
+const numberFormats = new Map<string, Intl.NumberFormat>();
+
+export const getLanguage = (): string => current.language;
+
+/**
+ * Switches the UI language and notifies subscribers. Unknown languages are ignored.
+ */
+export const setLanguage = (language: string): void => {
+  const catalog = findCatalog(language);
+  if (!catalog || catalog === current) return;
+  current = catalog;
+  listeners.forEach(listener => listener());
+};
+
+/**
+ * Calls `listener` whenever the language changes, e.g. for `useSyncExternalStore`.
+ * @returns A function that unsubscribes.
+ */
+export const subscribeLanguage = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Formats a number with the current language's digit grouping and decimal separator.
+ * @param fractionDigits Exact number of decimals, or undefined for up to three.
+ */
+export const formatNumber = (value: number, fractionDigits?: number): string => {
+  const key = `${current.language}/${fractionDigits ?? ''}`;
+  let format = numberFormats.get(key);
+  if (!format) {
+    format = new Intl.NumberFormat(current.language, fractionDigits === undefined
+      ? undefined
+      : { minimumFractionDigits: fractionDigits, maximumFractionDigits: fractionDigits });
+    numberFormats.set(key, format);
+  }
+  return format.format(value);
+};
+
+/**
+ * Looks up a message in the current language and fills in its placeholders.
+ * Numbers are formatted for the language; format them beforehand to fix their decimals.
+ */
+export const t = (key: MessageKey, params?: Record<string, string | number>): string => {
+  const message = current.messages[key];
+  if (!params) return message;
+  return message.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = params[name];
+    if (value === undefined) return placeholder;
+    return typeof value === 'number' ? formatNumber(value) : value;
+  });
+};
@@ -0,0 +1,315 @@
+import type { ExportSettings, ImageMetadata, MetadataField, MetadataSettings } from '../types';
+import type { MessageKey } from './i18n';
+import { crc32 } from './zip';
+
+export const METADATA_FIELDS: { field: MetadataField; tag: number; label: MessageKey }[] = [
+  { field: 'artist', tag: 0x013b, label: 'metadata.artist' },
+  { field: 'copyright', tag: 0x8298, label: 'metadata.copyright' },
+  { field: 'description', tag: 0x010e, label: 'metadata.description' },
+  { field: 'make', tag: 0x010f, label: 'metadata.make' },
+  { field: 'model', tag: 0x0110, label: 'metadata.model' },
+  { field: 'dateTime', tag: 0x0132, label: 'metadata.dateTime' },
+];
+
+export const DEFAULT_METADATA_SETTINGS: MetadataSettings = { keepFields: [] };
+
+const TAG_ORIENTATION = 0x0112;
+const TAG_GPS_IFD = 0x8825;
+const TYPE_ASCII = 2;
+const TYPE_SHORT = 3;
+
+/**
+ * Where the orientation value sits in the file, so it can be rewritten before decoding.
+ * `crc` is set for PNG, whose chunk checksum must be recomputed after the patch.
+ */
+interface OrientationPatch {
+  offset: number;
+  littleEndian: boolean;
+  crc?: { start: number; end: number };
+}
+
+export interface ParsedMetadata {
+  metadata: ImageMetadata;
+  orientationPatch: OrientationPatch | null;
+}
+
+const emptyMetadata = (): ImageMetadata => ({ orientation: 1, fields: {}, hasGps: false, iccProfile: null });
+
+const decodeText = (bytes: Uint8Array): string =>
+  new TextDecoder('utf-8').decode(bytes).replace(/\0+$/, '').trim();
+
+const startsWith = (bytes: Uint8Array, offset: number, ascii: string): boolean => {
+  if (offset + ascii.length > bytes.length) return false;
+  for (let i = 0; i < ascii.length; i++) {
+    if (bytes[offset + i] !== ascii.charCodeAt(i)) return false;
+  }
+  return true;
+};
+
+/**
+ * Reads IFD0 of a TIFF/EXIF block.
+ * @param bytes The whole file.
+ * @param tiffStart Offset of the TIFF header ("II*\0" or "MM\0*") in the file.
+ * @param tiffEnd End of the EXIF block in the file.
+ */
+const parseTiff = (bytes: Uint8Array, tiffStart: number, tiffEnd: number, result: ParsedMetadata, crc?: OrientationPatch['crc']): void => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (tiffStart + 8 > tiffEnd) return;
+  const littleEndian = startsWith(bytes, tiffStart, 'II');
+  if (!littleEndian && !startsWith(bytes, tiffStart, 'MM')) return;
+  if (view.getUint16(tiffStart + 2, littleEndian) !== 42) return;
+
+  const ifd = tiffStart + view.getUint32(tiffStart + 4, littleEndian);
+  if (ifd + 2 > tiffEnd) return;
+  const count = view.getUint16(ifd, littleEndian);
+
+  for (let i = 0; i < count; i++) {
+    const entry = ifd + 2 + i * 12;
+    if (entry + 12 > tiffEnd) break;
+    const tag = view.getUint16(entry, littleEndian);
+    const type = view.getUint16(entry + 2, littleEndian);
+    const length = view.getUint32(entry + 4, littleEndian);
+
+    if (tag === TAG_ORIENTATION && type === TYPE_SHORT) {
+      const value = view.getUint16(entry + 8, littleEndian);
+      if (value >= 1 && value <= 8) {
+        result.metadata.orientation = value;
+        result.orientationPatch = { offset: entry + 8, littleEndian, crc };
+      }
+    } else if (tag === TAG_GPS_IFD) {
+      result.metadata.hasGps = true;
+    } else if (type === TYPE_ASCII) {
+      const field = METADATA_FIELDS.find(f => f.tag === tag);
+      if (!field) continue;
+      const start = length <= 4 ? entry + 8 : tiffStart + view.getUint32(entry + 8, littleEndian);
+      if (start + length > tiffEnd) continue;
+      const text = decodeText(bytes.subarray(start, start + length));
+      if (text) result.metadata.fields[field.field] = text;
+    }
+  }
+};
+
+/**
+ * Reads the profile description from an ICC profile's `desc` tag (v2 `desc` or v4 `mluc`).
+ */
+const parseIccDescription = (icc: Uint8Array): string | null => {
+  if (icc.length < 132) return null;
+  const view = new DataView(icc.buffer, icc.byteOffset, icc.byteLength);
+  const tagCount = view.getUint32(128);
+  for (let i = 0; i < tagCount; i++) {
+    const entry = 132 + i * 12;
+    if (entry + 12 > icc.length) break;
+    if (!startsWith(icc, entry, 'desc')) continue;
+    const offset = view.getUint32(entry + 4);
+    const size = view.getUint32(entry + 8);
+    if (offset + size > icc.length || size < 12) return null;
+    if (startsWith(icc, offset, 'desc')) {
+      const length = view.getUint32(offset + 8);
+      return decodeText(icc.subarray(offset + 12, Math.min(offset + 12 + length, offset + size))) || null;
+    }
+    if (startsWith(icc, offset, 'mluc') && size >= 28) {
+      const recordLength = view.getUint32(offset + 20);
+      const recordOffset = view.getUint32(offset + 24);
+      const start = offset + recordOffset;
+      if (start + recordLength > icc.length) return null;
+      return new TextDecoder('utf-16be').decode(icc.subarray(start, start + recordLength)).replace(/\0+$/, '').trim() || null;
+    }
+  }
+  return null;
+};
+
+const parseJpeg = (bytes: Uint8Array, result: ParsedMetadata): void => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const iccChunks: Uint8Array[] = [];
+  let offset = 2;
+
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    // Start of scan: no more metadata segments
+    if (marker === 0xda || marker === 0xd9) break;
+    const length = view.getUint16(offset + 2);
+    const data = offset + 4;
+    const end = offset + 2 + length;
+    if (end > bytes.length) break;
+
+    if (marker === 0xe1 && startsWith(bytes, data, 'Exif\0\0')) {
+      parseTiff(bytes, data + 6, end, result);
+    } else if (marker === 0xe2 && startsWith(bytes, data, 'ICC_PROFILE\0')) {
+      iccChunks.push(bytes.subarray(data + 14, end));
+    }
+    offset = end;
+  }
+
+  if (iccChunks.length > 0) {
+    const icc = new Uint8Array(iccChunks.reduce((sum, chunk) => sum + chunk.length, 0));
+    iccChunks.reduce((position, chunk) => {
+      icc.set(chunk, position);
+      return position + chunk.length;
+    }, 0);
+    result.metadata.iccProfile = parseIccDescription(icc) ?? 'ICC';
+  }
+};
+
+const parsePng = (bytes: Uint8Array, result: ParsedMetadata): void => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 8;
+
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const data = offset + 8;
+    const end = data + length;
+    if (end + 4 > bytes.length) break;
+
+    if (startsWith(bytes, offset + 4, 'eXIf')) {
+      parseTiff(bytes, data, end, result, { start: offset + 4, end });
+    } else if (startsWith(bytes, offset + 4, 'iCCP')) {
+      // The profile itself is zlib-compressed; its keyword is enough to name it
+      const nul = bytes.indexOf(0, data);
+      result.metadata.iccProfile = nul > data && nul < end ? decodeText(bytes.subarray(data, nul)) : 'ICC';
+    } else if (startsWith(bytes, offset + 4, 'IDAT')) {
+      break;
+    }
+    offset = end + 4;
+  }
+};
+
+const parseWebp = (bytes: Uint8Array, result: ParsedMetadata): void => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 12;
+
+  while (offset + 8 <= bytes.length) {
+    const size = view.getUint32(offset + 4, true);
+    const data = offset + 8;
+    const end = data + size;
+    if (end > bytes.length) break;
+
+    if (startsWith(bytes, offset, 'EXIF')) {
+      // Some writers keep the JPEG-style "Exif\0\0" prefix
+      const tiffStart = startsWith(bytes, data, 'Exif\0\0') ? data + 6 : data;
+      parseTiff(bytes, tiffStart, end, result);
+    } else if (startsWith(bytes, offset, 'ICCP')) {
+      result.metadata.iccProfile = parseIccDescription(bytes.subarray(data, end)) ?? 'ICC';
+    }
+    offset = end + (size % 2);
+  }
+};
+
+/**
+ * Reads orientation, text fields, GPS presence and the ICC profile name from
+ * a JPEG, PNG or WebP file. Unknown formats and malformed blocks yield defaults.
+ * @param bytes The raw file contents.
+ */
+export const parseMetadata = (bytes: Uint8Array): ParsedMetadata => {
+  const result: ParsedMetadata = { metadata: emptyMetadata(), orientationPatch: null };
+  try {
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+      parseJpeg(bytes, result);
+    } else if (startsWith(bytes, 0, '\x89PNG\r\n\x1a\n')) {
+      parsePng(bytes, result);
+    } else if (startsWith(bytes, 0, 'RIFF') && startsWith(bytes, 8, 'WEBP')) {
+      parseWebp(bytes, result);
+    }
+  } catch (e) {
+    console.error("Error reading image metadata:", e);
+  }
+  return result;
+};
+
+/**
+ * Returns a copy of the file with its EXIF orientation reset to 1, so every
+ * browser decodes the stored pixels as-is and the app applies the rotation itself.
+ */
+export const resetOrientation = (bytes: Uint8Array, patch: OrientationPatch): Uint8Array => {
+  const copy = bytes.slice();
+  new DataView(copy.buffer).setUint16(patch.offset, 1, patch.littleEndian);
+  if (patch.crc) {
+    new DataView(copy.buffer).setUint32(patch.crc.end, crc32(copy.subarray(patch.crc.start, patch.crc.end)));
+  }
+  return copy;
+};
+
+/**
+ * Builds a JPEG APP1 segment holding an EXIF IFD0 with the given text fields.
+ */
+const buildExifSegment = (fields: { tag: number; value: string }[]): Uint8Array => {
+  const encoder = new TextEncoder();
+  const values = fields
+    .map(({ tag, value }) => ({ tag, bytes: encoder.encode(`${value}\0`) }))
+    .sort((a, b) => a.tag - b.tag);
+
+  const ifdSize = 2 + values.length * 12 + 4;
+  const dataSize = values.reduce((sum, v) => sum + (v.bytes.length > 4 ? v.bytes.length : 0), 0);
+  const tiffSize = 8 + ifdSize + dataSize;
+  const segment = new Uint8Array(4 + 6 + tiffSize);
+  const view = new DataView(segment.buffer);
+
+  view.setUint16(0, 0xffe1);
+  view.setUint16(2, segment.length - 2);
+  segment.set(encoder.encode('Exif\0\0'), 4);
+
+  const tiff = 10;
+  segment.set(encoder.encode('MM'), tiff);
+  view.setUint16(tiff + 2, 42);
+  view.setUint32(tiff + 4, 8);
+  view.setUint16(tiff + 8, values.length);
+
+  let dataOffset = 8 + ifdSize;
+  values.forEach((v, i) => {
+    const entry = tiff + 10 + i * 12;
+    view.setUint16(entry, v.tag);
+    view.setUint16(entry + 2, TYPE_ASCII);
+    view.setUint32(entry + 4, v.bytes.length);
+    if (v.bytes.length <= 4) {
+      segment.set(v.bytes, entry + 8);
+    } else {
+      view.setUint32(entry + 8, dataOffset);
+      segment.set(v.bytes, tiff + dataOffset);
+      dataOffset += v.bytes.length;
+    }
+  });
+  return segment;
+};
+
+const selectFields = (metadata: ImageMetadata, settings: MetadataSettings): { tag: number; value: string }[] =>
+  METADATA_FIELDS
+    .filter(({ field }) => settings.keepFields.includes(field) && metadata.fields[field])
+    .map(({ field, tag }) => ({ tag, value: metadata.fields[field] as string }));
+
+/**
+ * Shrinks the size budget by the EXIF segment `embedMetadata` will add, so the
+ * saved JPEG still fits once the segment is in.
+ * @returns The settings to encode with, and the bytes the segment will add.
+ */
+export const reserveMetadataBudget = (
+  exportSettings: ExportSettings,
+  metadata: ImageMetadata | null,
+  settings: MetadataSettings
+): { settings: ExportSettings; metadataSize: number } => {
+  const fields = metadata && exportSettings.format === 'jpeg' ? selectFields(metadata, settings) : [];
+  const metadataSize = fields.length > 0 ? buildExifSegment(fields).length : 0;
+  if (!exportSettings.maxKB || metadataSize === 0) return { settings: exportSettings, metadataSize };
+  // A budget of 0 would mean no limit, so keep at least one byte
+  const maxKB = Math.max(exportSettings.maxKB - metadataSize / 1024, 1 / 1024);
+  return { settings: { ...exportSettings, maxKB }, metadataSize };
+};
+
+/**
+ * Copies the selected EXIF text fields into an encoded JPEG. Canvas encoders
+ * write no metadata, so the output otherwise carries nothing from the source.
+ * @param jpeg The encoded JPEG.
+ * @param metadata Metadata read from the source image.
+ * @param settings Which fields to keep.
+ * @returns The JPEG with an EXIF segment, or the input unchanged if there is nothing to keep.
+ */
+export const embedMetadata = async (jpeg: Blob, metadata: ImageMetadata, settings: MetadataSettings): Promise<Blob> => {
+  const fields = selectFields(metadata, settings);
+  if (fields.length === 0 || jpeg.type !== 'image/jpeg') return jpeg;
+
+  const bytes = new Uint8Array(await jpeg.arrayBuffer());
+  // Place the EXIF segment after SOI and a leading JFIF APP0, if present
+  let insertAt = 2;
+  if (bytes[2] === 0xff && bytes[3] === 0xe0) {
+    insertAt = 4 + ((bytes[4] << 8) | bytes[5]);
+  }
+  return new Blob([bytes.subarray(0, insertAt), buildExifSegment(fields), bytes.subarray(insertAt)], { type: 'image/jpeg' });
+};
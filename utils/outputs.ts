@@ -0,0 +1,85 @@
+import type { FitTransform, ImageDimensions, ImageTransform, OutputPreset, OutputSpec, TargetSize, ViewState } from '../types';
+import { clampPan, getInitialFit } from './geometry';
+import { resolveTargetSize } from './presets';
+
+export const PLAIN_VIEW: ViewState = { zoom: 1, pan: { x: 0, y: 0 } };
+
+export interface PlannedOutput {
+  target: TargetSize;
+  fit: FitTransform;
+  view: ViewState;
+}
+
+/**
+ * Creates an extra output for a preset, inheriting the primary framing.
+ */
+export const createOutputSpec = (presetId: string): OutputSpec => ({
+  id: `output-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  presetId,
+  framing: 'inherit',
+});
+
+/**
+ * Scales the primary framing to another output. The zoom is kept and the pan
+ * is scaled by the ratio of the two fits, so the same point of the image
+ * stays at the center of the frame whatever the output's size or aspect.
+ */
+export const getInheritedView = (primaryFit: FitTransform, primaryView: ViewState, fit: FitTransform): ViewState => {
+  const ratio = fit.scale / primaryFit.scale;
+  return { zoom: primaryView.zoom, pan: { x: primaryView.pan.x * ratio, y: primaryView.pan.y * ratio } };
+};
+
+/**
+ * Works out the frame of one extra output for an image.
+ * @param source The dimensions of the oriented source image.
+ * @param primary The primary output's fit and framing for the same image.
+ * @param ownView The output's own framing, used when it doesn't inherit.
+ * @returns The target, which may carry an error, with the fit and clamped framing.
+ */
+export const resolveOutputFrame = (
+  source: ImageDimensions,
+  transform: ImageTransform,
+  preset: OutputPreset,
+  output: OutputSpec,
+  primary: { fit: FitTransform; view: ViewState },
+  ownView: ViewState | undefined
+): PlannedOutput => {
+  const target = resolveTargetSize(preset, source);
+  const fit = getInitialFit(source, target);
+  const view = output.framing === 'inherit'
+    ? getInheritedView(primary.fit, primary.view, fit)
+    : ownView ?? PLAIN_VIEW;
+  return {
+    target,
+    fit,
+    view: { zoom: view.zoom, pan: clampPan(source, target, fit, view.zoom, view.pan, transform) },
+  };
+};
+
+/**
+ * Frames every output of a job for one image: the primary preset first, then the extra outputs.
+ * @param source The dimensions of the oriented source image.
+ * @param primaryView The image's primary framing.
+ * @param ownViews The image's own framings of extra outputs, by output id.
+ * @returns One entry per output. Targets the image can't be resized to carry an error.
+ */
+export const planOutputs = (
+  source: ImageDimensions,
+  transform: ImageTransform,
+  primaryPreset: OutputPreset,
+  primaryView: ViewState,
+  extras: { output: OutputSpec; preset: OutputPreset }[],
+  ownViews: Record<string, ViewState>
+): PlannedOutput[] => {
+  const target = resolveTargetSize(primaryPreset, source);
+  const fit = getInitialFit(source, target);
+  const primary: PlannedOutput = {
+    target,
+    fit,
+    view: { zoom: primaryView.zoom, pan: clampPan(source, target, fit, primaryView.zoom, primaryView.pan, transform) },
+  };
+  return [
+    primary,
+    ...extras.map(({ output, preset }) => resolveOutputFrame(source, transform, preset, output, primary, ownViews[output.id])),
+  ];
+};
@@ -0,0 +1,258 @@
+import type { ImageDimensions, LogoOverlay, OverlayAnchor, OverlayItem, Point, Rect, RenderContext, TextOverlay, WatermarkTemplate } from '../types';
+import { createCanvas, get2DContext } from './canvas';
+import { t } from './i18n';
+
+const WATERMARK_KEY = 'lineresize.watermark';
+
+export const DEFAULT_WATERMARK: WatermarkTemplate = {
+  enabled: true,
+  items: [],
+};
+
+/**
+ * Font families offered for text. Web fonts aren't loaded in the render
+ * worker, so these are generic and widely installed families.
+ */
+export const OVERLAY_FONTS: { label: string; value: string }[] = [
+  { label: 'Sans-serif', value: 'sans-serif' },
+  { label: 'Serif', value: 'serif' },
+  { label: 'Monospace', value: 'monospace' },
+  { label: 'Tahoma', value: 'Tahoma, sans-serif' },
+  { label: 'Arial', value: 'Arial, sans-serif' },
+  { label: 'Georgia', value: 'Georgia, serif' },
+];
+
+// In reading order, for laying out as a 3 x 3 grid
+export const OVERLAY_ANCHORS: OverlayAnchor[] = [
+  'top-left', 'top', 'top-right',
+  'left', 'center', 'right',
+  'bottom-left', 'bottom', 'bottom-right',
+];
+
+// Longest side logos are stored at, which keeps the template small enough for localStorage
+const MAX_LOGO_SIZE = 512;
+
+// Height of a line of text as a multiple of the font size
+const LINE_HEIGHT = 1.25;
+
+// Smallest and largest item size, as a fraction of the frame's shorter side
+export const MIN_OVERLAY_SIZE = 0.02;
+export const MAX_OVERLAY_SIZE = 1;
+
+/**
+ * Decoded logos by item id. Each thread that renders keeps its own copy,
+ * since data URLs can't be drawn synchronously.
+ */
+const overlayImages = new Map<string, ImageBitmap>();
+
+/**
+ * Stores or removes the decoded image for a logo item, taking ownership of the bitmap.
+ */
+export const setOverlayImage = (id: string, image: ImageBitmap | null): void => {
+  overlayImages.get(id)?.close();
+  if (image) overlayImages.set(id, image);
+  else overlayImages.delete(id);
+};
+
+/**
+ * Decodes a logo's data URL for `setOverlayImage`.
+ */
+export const decodeOverlayImage = async (src: string): Promise<ImageBitmap> => {
+  const response = await fetch(src);
+  return createImageBitmap(await response.blob());
+};
+
+const createOverlayId = (): string => `overlay-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createTextOverlay = (): TextOverlay => ({
+  id: createOverlayId(),
+  kind: 'text',
+  anchor: 'bottom-right',
+  offset: { x: 0.03, y: 0.03 },
+  size: 0.06,
+  opacity: 0.8,
+  text: '© ',
+  font: OVERLAY_FONTS[0].value,
+  color: '#ffffff',
+  strokeColor: '#000000',
+  strokeWidth: 0.08,
+});
+
+/**
+ * Reads an uploaded logo, shrinking it to `MAX_LOGO_SIZE` and storing it as a PNG.
+ * @throws An Error with a message for the user if the file can't be read as an image.
+ */
+export const createLogoOverlay = async (file: File): Promise<LogoOverlay> => {
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file);
+  } catch (e) {
+    console.error(`Error decoding logo ${file.name}:`, e);
+    throw new Error(t('watermark.logoFailed', { name: file.name }));
+  }
+  const scale = Math.min(1, MAX_LOGO_SIZE / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    bitmap.close();
+    throw new Error('Canvas 2D context is unavailable');
+  }
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return {
+    id: createOverlayId(),
+    kind: 'logo',
+    anchor: 'top-right',
+    offset: { x: 0.03, y: 0.03 },
+    size: 0.2,
+    opacity: 1,
+    src: canvas.toDataURL('image/png'),
+    aspect: canvas.width / canvas.height,
+  };
+};
+
+const getUnit = (target: ImageDimensions): number => Math.min(target.width, target.height);
+
+/**
+ * Where an anchor sits along each axis: 0 at the start, 0.5 centered, 1 at the end.
+ */
+const getAnchorFactors = (anchor: OverlayAnchor): Point => ({
+  x: anchor.includes('left') ? 0 : anchor.includes('right') ? 1 : 0.5,
+  y: anchor.startsWith('top') ? 0 : anchor.startsWith('bottom') ? 1 : 0.5,
+});
+
+const getFont = (item: TextOverlay, target: ImageDimensions): string => `${item.size * getUnit(target)}px ${item.font}`;
+
+/**
+ * Measures an item in output pixels. Text is measured with `ctx`, using the same font as drawing.
+ */
+const getOverlaySize = (ctx: RenderContext, item: OverlayItem, target: ImageDimensions): ImageDimensions => {
+  const size = item.size * getUnit(target);
+  if (item.kind === 'logo') return { width: size, height: size / item.aspect };
+  ctx.save();
+  ctx.font = getFont(item, target);
+  const width = ctx.measureText(item.text).width;
+  ctx.restore();
+  const outline = size * item.strokeWidth;
+  return { width: width + outline, height: size * LINE_HEIGHT + outline };
+};
+
+/**
+ * Calculates the box an item covers in the frame, in output pixels.
+ */
+export const getOverlayBox = (ctx: RenderContext, item: OverlayItem, target: ImageDimensions): Rect => {
+  const { width, height } = getOverlaySize(ctx, item, target);
+  const unit = getUnit(target);
+  const factors = getAnchorFactors(item.anchor);
+  // Margins point inwards from the far edges
+  const direction = (factor: number) => factor === 1 ? -1 : 1;
+  return {
+    x: factors.x * (target.width - width) + direction(factors.x) * item.offset.x * unit,
+    y: factors.y * (target.height - height) + direction(factors.y) * item.offset.y * unit,
+    width,
+    height,
+  };
+};
+
+/**
+ * The inverse of `getOverlayBox`: the offset that puts the item at the box's position.
+ */
+export const getOverlayOffset = (item: OverlayItem, box: Rect, target: ImageDimensions): Point => {
+  const unit = getUnit(target);
+  const factors = getAnchorFactors(item.anchor);
+  const direction = (factor: number) => factor === 1 ? -1 : 1;
+  return {
+    x: (box.x - factors.x * (target.width - box.width)) / (direction(factors.x) * unit),
+    y: (box.y - factors.y * (target.height - box.height)) / (direction(factors.y) * unit),
+  };
+};
+
+let measureContext: RenderContext | null = null;
+
+/**
+ * A shared context for measuring text on the main thread.
+ */
+export const getMeasureContext = (): RenderContext | null => {
+  measureContext ??= get2DContext(createCanvas(1, 1));
+  return measureContext;
+};
+
+/**
+ * Draws the template's items over the frame, last item on top. Logos whose
+ * image hasn't reached this thread yet are skipped.
+ */
+export const drawOverlay = (ctx: RenderContext, target: ImageDimensions, template: WatermarkTemplate): void => {
+  if (!template.enabled) return;
+  template.items.forEach(item => {
+    const box = getOverlayBox(ctx, item, target);
+    ctx.save();
+    ctx.globalAlpha = item.opacity;
+    if (item.kind === 'logo') {
+      const image = overlayImages.get(item.id);
+      if (image) {
+        ctx.imageSmoothingEnabled = true;
+        ctx.imageSmoothingQuality = 'high';
+        ctx.drawImage(image, box.x, box.y, box.width, box.height);
+      }
+    } else {
+      const outline = item.size * getUnit(target) * item.strokeWidth;
+      ctx.font = getFont(item, target);
+      ctx.textAlign = 'left';
+      ctx.textBaseline = 'middle';
+      const x = box.x + outline / 2;
+      const y = box.y + box.height / 2;
+      if (outline > 0) {
+        ctx.lineJoin = 'round';
+        ctx.lineWidth = outline;
+        ctx.strokeStyle = item.strokeColor;
+        ctx.strokeText(item.text, x, y);
+      }
+      ctx.fillStyle = item.color;
+      ctx.fillText(item.text, x, y);
+    }
+    ctx.restore();
+  });
+};
+
+const isOverlayItem = (value: unknown): value is OverlayItem => {
+  if (!value || typeof value !== 'object') return false;
+  const item = value as Partial<OverlayItem>;
+  const placed = typeof item.id === 'string' && OVERLAY_ANCHORS.includes(item.anchor as OverlayAnchor) &&
+    typeof item.offset?.x === 'number' && typeof item.offset?.y === 'number' &&
+    typeof item.size === 'number' && typeof item.opacity === 'number';
+  if (!placed) return false;
+  if (item.kind === 'logo') return typeof item.src === 'string' && typeof item.aspect === 'number' && item.aspect > 0;
+  return item.kind === 'text' && typeof item.text === 'string' && typeof item.font === 'string' &&
+    typeof item.color === 'string' && typeof item.strokeColor === 'string' && typeof item.strokeWidth === 'number';
+};
+
+export const loadWatermark = (): WatermarkTemplate => {
+  try {
+    const raw = localStorage.getItem(WATERMARK_KEY);
+    if (!raw) return DEFAULT_WATERMARK;
+    const parsed = JSON.parse(raw) as Partial<WatermarkTemplate>;
+    return {
+      enabled: parsed.enabled !== false,
+      items: Array.isArray(parsed.items) ? parsed.items.filter(isOverlayItem) : [],
+    };
+  } catch (e) {
+    console.error("Error reading watermark template:", e);
+    return DEFAULT_WATERMARK;
+  }
+};
+
+/**
+ * @returns Whether the template was stored. Large logos can exceed the storage quota.
+ */
+export const saveWatermark = (template: WatermarkTemplate): boolean => {
+  try {
+    localStorage.setItem(WATERMARK_KEY, JSON.stringify(template));
+    return true;
+  } catch (e) {
+    console.error("Error saving watermark template:", e);
+    return false;
+  }
+};
@@ -0,0 +1,127 @@
+import type { FramePreset, ImageDimensions, OutputPreset, TargetSize } from '../types';
+import { formatNumber, t, type MessageKey } from './i18n';
+
+const CUSTOM_PRESETS_KEY = 'lineresize.customPresets';
+
+export const MAX_PRESET_DIMENSION = 8192;
+
+export const BUILT_IN_PRESETS: OutputPreset[] = [
+  { kind: 'frame', id: 'square-1040', name: 'สี่เหลี่ยมจัตุรัส', width: 1040, height: 1040 },
+  { kind: 'fixed-width', id: 'width-1040', name: 'กว้าง 1040 คงสัดส่วน', width: 1040, minHeight: 520, maxHeight: 2080 },
+  { kind: 'frame', id: 'portrait-1080x1350', name: 'แนวตั้ง 4:5', width: 1080, height: 1350 },
+  { kind: 'frame', id: 'link-1200x628', name: 'ลิงก์แชร์', width: 1200, height: 628 },
+  { kind: 'frame', id: 'banner-1040x520', name: 'แบนเนอร์ 2:1', width: 1040, height: 520 },
+];
+
+export const DEFAULT_PRESET_ID = BUILT_IN_PRESETS[0].id;
+
+// Translated names of the built-in presets. Their `name` is what recipes store
+const BUILT_IN_NAMES: Record<string, MessageKey> = {
+  'square-1040': 'preset.square-1040',
+  'width-1040': 'preset.width-1040',
+  'portrait-1080x1350': 'preset.portrait-1080x1350',
+  'link-1200x628': 'preset.link-1200x628',
+  'banner-1040x520': 'preset.banner-1040x520',
+};
+
+/**
+ * The name to show for a preset: a built-in one's in the current language, or a custom one's as entered.
+ */
+export const getPresetName = (preset: OutputPreset): string => {
+  const key = preset.custom ? undefined : BUILT_IN_NAMES[preset.id];
+  return key ? t(key) : preset.name;
+};
+
+const isValidDimension = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0 && value <= MAX_PRESET_DIMENSION;
+
+/**
+ * Checks that an untrusted value, e.g. from an imported file, is a well-formed preset.
+ */
+export const isValidPreset = (value: unknown): value is OutputPreset => {
+  if (!value || typeof value !== 'object') return false;
+  const p = value as Record<string, unknown>;
+  if (typeof p.id !== 'string' || typeof p.name !== 'string') return false;
+  if (p.kind === 'frame') return isValidDimension(p.width) && isValidDimension(p.height);
+  return p.kind === 'fixed-width' && isValidDimension(p.width) && isValidDimension(p.minHeight) &&
+    isValidDimension(p.maxHeight) && p.minHeight <= p.maxHeight;
+};
+
+/**
+ * Reads the user's custom presets from localStorage, dropping malformed entries.
+ * @returns The stored custom presets, or an empty list.
+ */
+export const loadCustomPresets = (): FramePreset[] => {
+  try {
+    const raw = localStorage.getItem(CUSTOM_PRESETS_KEY);
+    if (!raw) return [];
+    const parsed: unknown = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    return parsed
+      .filter((p): p is FramePreset =>
+        p && typeof p.id === 'string' && typeof p.name === 'string' &&
+        isValidDimension(p.width) && isValidDimension(p.height))
+      .map(p => ({ kind: 'frame', id: p.id, name: p.name, width: p.width, height: p.height, custom: true }));
+  } catch (e) {
+    console.error("Error reading custom presets:", e);
+    return [];
+  }
+};
+
+/**
+ * Persists the user's custom presets to localStorage.
+ * @param presets The full list of custom presets to store.
+ */
+export const saveCustomPresets = (presets: FramePreset[]): void => {
+  try {
+    localStorage.setItem(CUSTOM_PRESETS_KEY, JSON.stringify(presets));
+  } catch (e) {
+    console.error("Error saving custom presets:", e);
+  }
+};
+
+/**
+ * Builds a new custom frame preset.
+ * @returns The preset, or null if the dimensions are out of range.
+ */
+export const createCustomPreset = (name: string, width: number, height: number): FramePreset | null => {
+  if (!isValidDimension(width) || !isValidDimension(height)) return null;
+  return {
+    kind: 'frame',
+    id: `custom-${Date.now().toString(36)}`,
+    name: name.trim() || `${width} x ${height}`,
+    width,
+    height,
+    custom: true,
+  };
+};
+
+/**
+ * Describes a preset's output size for display, e.g. "1,040 x 1,040" or "1,040 x (520–2,080)".
+ */
+export const describePresetSize = (preset: OutputPreset): string =>
+  preset.kind === 'frame'
+    ? `${formatNumber(preset.width)} x ${formatNumber(preset.height)}`
+    : `${formatNumber(preset.width)} x (${formatNumber(preset.minHeight)}–${formatNumber(preset.maxHeight)})`;
+
+/**
+ * Resolves the concrete output size for a preset and source image.
+ * @param preset The selected output preset.
+ * @param source The dimensions of the source image.
+ * @returns The output size, with `error` set if the preset rejects the image.
+ */
+export const resolveTargetSize = (preset: OutputPreset, source: ImageDimensions): TargetSize => {
+  if (preset.kind === 'frame') {
+    return { width: preset.width, height: preset.height, error: null };
+  }
+
+  const height = Math.max(1, Math.round(source.height * preset.width / source.width));
+  if (height < preset.minHeight || height > preset.maxHeight) {
+    return {
+      width: preset.width,
+      height,
+      error: t('preset.heightOutOfRange', { height, min: preset.minHeight, max: preset.maxHeight }),
+    };
+  }
+  return { width: preset.width, height, error: null };
+};
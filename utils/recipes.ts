@@ -0,0 +1,162 @@
+import type { BackgroundMode, BackgroundSettings, EditRecipe, ExportSettings, FitTransform, ImageDimensions, ImageTransform, OutputFormat, OutputPreset, ViewState } from '../types';
+import { BACKGROUND_MODES } from './background';
+import { OUTPUT_FORMATS } from './encode';
+import { MAX_ZOOM, MIN_ZOOM, getStraightenScale } from './geometry';
+import { getPresetName, isValidPreset } from './presets';
+import { t } from './i18n';
+
+const RECIPES_KEY = 'lineresize.recipes';
+
+// Bumped whenever the recipe format changes incompatibly
+export const RECIPE_VERSION = 1;
+
+// Marks a JSON file as a recipe, so other JSON files are rejected clearly
+const RECIPE_TYPE = 'lineresize-recipe';
+
+/**
+ * Calculates the size of the zoomed image in output pixels, before straightening rotates it.
+ */
+const getZoomedSize = (source: ImageDimensions, fit: FitTransform, zoom: number, transform: ImageTransform): ImageDimensions => {
+  const scale = fit.scale * zoom * getStraightenScale(source, transform);
+  return { width: source.width * scale, height: source.height * scale };
+};
+
+/**
+ * Captures the current settings and framing as a recipe.
+ * @param source The dimensions of the oriented source image the framing was made on.
+ */
+export const createRecipe = (
+  name: string,
+  preset: OutputPreset,
+  view: ViewState,
+  source: ImageDimensions,
+  fit: FitTransform,
+  transform: ImageTransform,
+  background: BackgroundSettings,
+  exportSettings: ExportSettings
+): EditRecipe => {
+  const size = getZoomedSize(source, fit, view.zoom, transform);
+  return {
+    version: RECIPE_VERSION,
+    name: name.trim() || getPresetName(preset),
+    preset,
+    zoom: view.zoom,
+    anchor: { x: view.pan.x / size.width, y: view.pan.y / size.height },
+    background,
+    export: exportSettings,
+  };
+};
+
+/**
+ * Works out a recipe's framing for an image.
+ * @param source The dimensions of the oriented source image.
+ * @param fit The image's auto-fit under the recipe's preset.
+ * @returns The view. The pan is not clamped.
+ */
+export const getRecipeView = (recipe: EditRecipe, source: ImageDimensions, fit: FitTransform, transform: ImageTransform): ViewState => {
+  const size = getZoomedSize(source, fit, recipe.zoom, transform);
+  return { zoom: recipe.zoom, pan: { x: recipe.anchor.x * size.width, y: recipe.anchor.y * size.height } };
+};
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Checks an untrusted value against the current recipe format.
+ * @returns The recipe, or the reason it was rejected.
+ */
+const validateRecipe = (value: unknown): { recipe: EditRecipe | null; error: string | null } => {
+  const invalid = (field: string) => ({ recipe: null, error: t('recipes.invalidField', { field }) });
+  if (!value || typeof value !== 'object' || (value as Record<string, unknown>).type !== RECIPE_TYPE) {
+    return { recipe: null, error: t('recipes.notRecipe') };
+  }
+  const r = value as Record<string, unknown>;
+  if (r.version !== RECIPE_VERSION) {
+    return {
+      recipe: null,
+      error: isFiniteNumber(r.version) && r.version > RECIPE_VERSION
+        ? t('recipes.newerVersion', { version: r.version })
+        : t('recipes.unsupportedVersion', { version: String(r.version), supported: RECIPE_VERSION }),
+    };
+  }
+  if (typeof r.name !== 'string') return invalid('name');
+  if (!isValidPreset(r.preset)) return invalid('preset');
+  if (!isFiniteNumber(r.zoom) || r.zoom < MIN_ZOOM || r.zoom > MAX_ZOOM) return invalid('zoom');
+
+  const anchor = r.anchor as Record<string, unknown> | null;
+  if (!anchor || !isFiniteNumber(anchor.x) || !isFiniteNumber(anchor.y)) return invalid('anchor');
+
+  const background = r.background as Record<string, unknown> | null;
+  if (!background || !BACKGROUND_MODES.some(({ mode }) => mode === background.mode) || typeof background.color !== 'string') {
+    return invalid('background');
+  }
+
+  const exportSettings = r.export as Record<string, unknown> | null;
+  if (
+    !exportSettings ||
+    typeof exportSettings.format !== 'string' || !(exportSettings.format in OUTPUT_FORMATS) ||
+    !isFiniteNumber(exportSettings.quality) || exportSettings.quality <= 0 || exportSettings.quality > 1 ||
+    !(exportSettings.maxKB === null || (isFiniteNumber(exportSettings.maxKB) && exportSettings.maxKB > 0))
+  ) {
+    return invalid('export');
+  }
+
+  return {
+    recipe: {
+      version: RECIPE_VERSION,
+      name: r.name,
+      preset: r.preset,
+      zoom: r.zoom,
+      anchor: { x: anchor.x, y: anchor.y },
+      background: { mode: background.mode as BackgroundMode, color: background.color },
+      export: { format: exportSettings.format as OutputFormat, quality: exportSettings.quality, maxKB: exportSettings.maxKB },
+    },
+    error: null,
+  };
+};
+
+/**
+ * Serializes a recipe for download.
+ */
+export const serializeRecipe = (recipe: EditRecipe): string =>
+  JSON.stringify({ type: RECIPE_TYPE, ...recipe }, null, 2);
+
+/**
+ * Reads a recipe file.
+ * @returns The recipe, or an error message saying why the file was rejected.
+ */
+export const parseRecipe = (text: string): { recipe: EditRecipe | null; error: string | null } => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (e) {
+    console.error("Error parsing recipe:", e);
+    return { recipe: null, error: t('recipes.invalidJson') };
+  }
+  return validateRecipe(parsed);
+};
+
+/**
+ * Reads the saved favorite recipes from localStorage, dropping entries that no longer validate.
+ */
+export const loadRecipes = (): EditRecipe[] => {
+  try {
+    const raw = localStorage.getItem(RECIPES_KEY);
+    if (!raw) return [];
+    const parsed: unknown = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    return parsed
+      .map(entry => validateRecipe({ type: RECIPE_TYPE, ...entry }).recipe)
+      .filter((recipe): recipe is EditRecipe => recipe !== null);
+  } catch (e) {
+    console.error("Error reading recipes:", e);
+    return [];
+  }
+};
+
+export const saveRecipes = (recipes: EditRecipe[]): void => {
+  try {
+    localStorage.setItem(RECIPES_KEY, JSON.stringify(recipes));
+  } catch (e) {
+    console.error("Error saving recipes:", e);
+  }
+};
@@ -0,0 +1,383 @@
+import type { AnyCanvas, CutoutSettings, FrameSpec, ImageDimensions, ImageTransform, Rect, RenderContext, ResampleFilter, SourceDetail, SourceImage } from '../types';
+import { applyAdjustments, isNeutralAdjustment } from './adjust';
+import { orientNormalizedRect } from './autoframe';
+import { getAverageBorderColor, getDominantBorderColor } from './background';
+import { createCanvas, get2DContext } from './canvas';
+import { type AlphaMask, createCutoutCanvas, getKeyMask } from './cutout';
+import { getDrawRect, getStraightenAngle } from './geometry';
+import { drawOverlay } from './overlay';
+import { resampleRegion } from './resample';
+import { createOrientedCanvas, hasQuarterTurnOrFlip } from './transform';
+
+// Width the image is shrunk to before being stretched back up for the blurred backdrop
+const BLUR_SAMPLE_WIDTH = 24;
+
+/**
+ * Data derived from a source image that is expensive to compute and doesn't
+ * change with zoom or pan. Cached per image so dragging only redraws.
+ */
+interface DerivedData {
+  averageColor?: string;
+  dominantColor?: string;
+  blurSample?: AnyCanvas;
+  /** The source followed by successive halvings, built lazily. */
+  mipmaps: SourceImage[];
+  /** The most recent rotated or flipped copy. Its own derived data is cached under it. */
+  oriented?: { key: string; canvas: AnyCanvas };
+  /** The flood-filled background mask for the most recent tolerance. */
+  keyMask?: { tolerance: number; mask: AlphaMask | null };
+  /** The most recent copy with its background removed. Its own derived data is cached under it. */
+  cutout?: { key: string; canvas: AnyCanvas };
+}
+
+const derivedCache = new WeakMap<SourceImage, DerivedData>();
+
+const getDerived = (img: SourceImage): DerivedData => {
+  let derived = derivedCache.get(img);
+  if (!derived) {
+    derived = { mipmaps: [img] };
+    derivedCache.set(img, derived);
+  }
+  return derived;
+};
+
+/**
+ * Returns the source with its quarter-turn rotation and flips baked in, so
+ * everything downstream can treat it as an ordinary upright image.
+ */
+const getOrientedSource = (img: SourceImage, transform: ImageTransform): SourceImage => {
+  if (!hasQuarterTurnOrFlip(transform)) return img;
+  const key = `${transform.rotation}:${transform.flipH}:${transform.flipV}`;
+  const derived = getDerived(img);
+  if (derived.oriented?.key !== key) {
+    const canvas = createOrientedCanvas(img, transform);
+    if (!canvas) return img;
+    derived.oriented = { key, canvas };
+  }
+  return derived.oriented.canvas;
+};
+
+const getCachedKeyMask = (img: SourceImage, tolerance: number): AlphaMask | null => {
+  const derived = getDerived(img);
+  if (derived.keyMask?.tolerance !== tolerance) {
+    derived.keyMask = { tolerance, mask: getKeyMask(img, tolerance) };
+  }
+  return derived.keyMask.mask;
+};
+
+/**
+ * Returns the source with its keyed-out background made transparent. The
+ * flood fill is cached separately, so brush strokes and feathering don't redo it.
+ */
+const getCutoutSource = (img: SourceImage, cutout: CutoutSettings): SourceImage => {
+  if (!cutout.enabled) return img;
+  const derived = getDerived(img);
+  const mask = getCachedKeyMask(img, cutout.tolerance);
+  if (!mask) return img;
+  const key = JSON.stringify(cutout);
+  if (derived.cutout?.key !== key) {
+    const canvas = createCutoutCanvas(img, mask, cutout);
+    if (!canvas) return img;
+    derived.cutout = { key, canvas };
+  }
+  return derived.cutout.canvas;
+};
+
+/**
+ * Removes the background from a full-resolution part of the source, using the
+ * mask found on the working copy. Not cached, as details are only drawn once per export.
+ */
+const getCutoutDetail = (img: SourceImage, detail: SourceDetail, cutout: CutoutSettings): SourceImage => {
+  const mask = getCachedKeyMask(img, cutout.tolerance);
+  return (mask && createCutoutCanvas(detail.image, mask, cutout, detail.region)) ?? detail.image;
+};
+
+/**
+ * Picks the smallest cached mipmap level that is still at least as wide as the
+ * drawn image, building levels on demand. Drawing from a level near the target
+ * size is faster and avoids the aliasing of a single large downscale.
+ */
+const getMipmap = (img: SourceImage, drawWidth: number): SourceImage => {
+  const levels = getDerived(img).mipmaps;
+
+  let last = levels[levels.length - 1];
+  while (last.width / 2 >= drawWidth && last.width >= 2 && last.height >= 2) {
+    const next = createCanvas(Math.floor(last.width / 2), Math.floor(last.height / 2));
+    const ctx = get2DContext(next);
+    if (!ctx) break;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(last, 0, 0, next.width, next.height);
+    levels.push(next);
+    last = next;
+  }
+
+  for (let i = levels.length - 1; i > 0; i--) {
+    if (levels[i].width >= drawWidth) return levels[i];
+  }
+  return img;
+};
+
+const getBlurSample = (img: SourceImage): AnyCanvas | null => {
+  const derived = getDerived(img);
+  if (!derived.blurSample) {
+    const sampleWidth = Math.min(BLUR_SAMPLE_WIDTH, img.width);
+    const sampleHeight = Math.max(1, Math.round(img.height * sampleWidth / img.width));
+    const small = createCanvas(sampleWidth, sampleHeight);
+    const smallCtx = get2DContext(small);
+    if (!smallCtx) return null;
+    smallCtx.imageSmoothingQuality = 'high';
+    smallCtx.drawImage(img, 0, 0, sampleWidth, sampleHeight);
+    derived.blurSample = small;
+  }
+  return derived.blurSample;
+};
+
+/**
+ * Draws a heavily blurred copy of the image scaled to cover the frame.
+ * Blurring is done by downsampling and upscaling with smoothing, since `ctx.filter` isn't portable.
+ */
+const drawBlurredBackdrop = (ctx: RenderContext, img: SourceImage, target: ImageDimensions): void => {
+  const small = getBlurSample(img);
+  if (!small) return;
+
+  const scale = Math.max(target.width / small.width, target.height / small.height);
+  const width = small.width * scale;
+  const height = small.height * scale;
+  ctx.save();
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(small, (target.width - width) / 2, (target.height - height) / 2, width, height);
+  ctx.restore();
+};
+
+/**
+ * Tiles mirrored copies of the image outward from the draw rect until the bounds are covered.
+ * Like the image itself, the tiles are drawn straight from the source with the browser filter.
+ */
+const drawMirroredBackdrop = (ctx: RenderContext, img: SourceImage, bounds: Rect, rect: Rect, filter: ResampleFilter): void => {
+  const source = filter === 'browser' ? img : getMipmap(img, rect.width);
+  const firstCol = Math.floor((bounds.x - rect.x) / rect.width);
+  const lastCol = Math.ceil((bounds.x + bounds.width - rect.x) / rect.width) - 1;
+  const firstRow = Math.floor((bounds.y - rect.y) / rect.height);
+  const lastRow = Math.ceil((bounds.y + bounds.height - rect.y) / rect.height) - 1;
+
+  for (let row = firstRow; row <= lastRow; row++) {
+    for (let col = firstCol; col <= lastCol; col++) {
+      if (row === 0 && col === 0) continue;
+      const flipX = Math.abs(col) % 2 === 1 ? -1 : 1;
+      const flipY = Math.abs(row) % 2 === 1 ? -1 : 1;
+      ctx.save();
+      ctx.translate(rect.x + col * rect.width + (flipX < 0 ? rect.width : 0), rect.y + row * rect.height + (flipY < 0 ? rect.height : 0));
+      ctx.scale(flipX, flipY);
+      ctx.drawImage(source, 0, 0, rect.width, rect.height);
+      ctx.restore();
+    }
+  }
+};
+
+/**
+ * Extends the outermost pixels of the image to the edges of the bounds.
+ */
+const drawStretchedBackdrop = (ctx: RenderContext, img: SourceImage, bounds: Rect, rect: Rect): void => {
+  const { width: w, height: h } = img;
+  const right = rect.x + rect.width;
+  const bottom = rect.y + rect.height;
+  const boundsRight = bounds.x + bounds.width;
+  const boundsBottom = bounds.y + bounds.height;
+
+  const stretch = (sx: number, sy: number, sw: number, sh: number, dx: number, dy: number, dw: number, dh: number) => {
+    // Negative sizes would mirror the strip, and happen when the image overflows that edge
+    if (dw > 0 && dh > 0) ctx.drawImage(img, sx, sy, sw, sh, dx, dy, dw, dh);
+  };
+
+  // Edges
+  stretch(0, 0, 1, h, bounds.x, rect.y, rect.x - bounds.x, rect.height);
+  stretch(w - 1, 0, 1, h, right, rect.y, boundsRight - right, rect.height);
+  stretch(0, 0, w, 1, rect.x, bounds.y, rect.width, rect.y - bounds.y);
+  stretch(0, h - 1, w, 1, rect.x, bottom, rect.width, boundsBottom - bottom);
+  // Corners
+  stretch(0, 0, 1, 1, bounds.x, bounds.y, rect.x - bounds.x, rect.y - bounds.y);
+  stretch(w - 1, 0, 1, 1, right, bounds.y, boundsRight - right, rect.y - bounds.y);
+  stretch(0, h - 1, 1, 1, bounds.x, bottom, rect.x - bounds.x, boundsBottom - bottom);
+  stretch(w - 1, h - 1, 1, 1, right, bottom, boundsRight - right, boundsBottom - bottom);
+};
+
+/**
+ * Runs a drawing callback in the straightened image's own coordinate space,
+ * where its draw rect is axis-aligned.
+ * @param draw Receives the frame's bounding box in that space, i.e. the area that must be covered.
+ */
+const withStraighten = (ctx: RenderContext, target: ImageDimensions, rect: Rect, angle: number, draw: (bounds: Rect) => void): void => {
+  if (angle === 0) {
+    draw({ x: 0, y: 0, width: target.width, height: target.height });
+    return;
+  }
+
+  const cx = rect.x + rect.width / 2;
+  const cy = rect.y + rect.height / 2;
+  // The frame's corners rotated the opposite way about the image center
+  const cos = Math.cos(-angle);
+  const sin = Math.sin(-angle);
+  const corners = [[0, 0], [target.width, 0], [0, target.height], [target.width, target.height]]
+    .map(([x, y]) => [cx + (x - cx) * cos - (y - cy) * sin, cy + (x - cx) * sin + (y - cy) * cos]);
+  const xs = corners.map(([x]) => x);
+  const ys = corners.map(([, y]) => y);
+  const left = Math.floor(Math.min(...xs));
+  const top = Math.floor(Math.min(...ys));
+
+  ctx.save();
+  ctx.translate(cx, cy);
+  ctx.rotate(angle);
+  ctx.translate(-cx, -cy);
+  ctx.imageSmoothingQuality = 'high';
+  draw({ x: left, y: top, width: Math.ceil(Math.max(...xs)) - left, height: Math.ceil(Math.max(...ys)) - top });
+  ctx.restore();
+};
+
+const getAverageColor = (img: SourceImage): string => {
+  const derived = getDerived(img);
+  derived.averageColor ??= getAverageBorderColor(img);
+  return derived.averageColor;
+};
+
+/**
+ * Fills the area of the frame not covered by the image, according to the background mode.
+ * Backdrops built from the image's edges follow its straighten angle.
+ * @param img The oriented source before background removal, which backdrops and fill colors come from.
+ */
+const drawBackground = (ctx: RenderContext, img: SourceImage, frame: FrameSpec, rect: Rect, angle: number): void => {
+  const { target, background } = frame;
+  ctx.clearRect(0, 0, target.width, target.height);
+
+  // Mirrored and stretched backdrops only extend the image outward, so the
+  // area removed from the image itself gets the border color
+  if (frame.cutout.enabled && (background.mode === 'mirror' || background.mode === 'stretch')) {
+    ctx.fillStyle = getAverageColor(img);
+    ctx.fillRect(0, 0, target.width, target.height);
+  }
+
+  switch (background.mode) {
+    case 'transparent':
+      return;
+    case 'blur':
+      drawBlurredBackdrop(ctx, img, target);
+      return;
+    case 'mirror':
+      withStraighten(ctx, target, rect, angle, bounds => drawMirroredBackdrop(ctx, img, bounds, rect, frame.resample));
+      return;
+    case 'stretch':
+      withStraighten(ctx, target, rect, angle, bounds => drawStretchedBackdrop(ctx, img, bounds, rect));
+      return;
+    case 'custom':
+      ctx.fillStyle = background.color;
+      break;
+    case 'dominant': {
+      const derived = getDerived(img);
+      derived.dominantColor ??= getDominantBorderColor(img);
+      ctx.fillStyle = derived.dominantColor;
+      break;
+    }
+    case 'average':
+      ctx.fillStyle = getAverageColor(img);
+      break;
+  }
+  ctx.fillRect(0, 0, target.width, target.height);
+};
+
+/**
+ * Draws the image into its rect using the chosen resampling filter.
+ * Convolution filters only process the part of the image inside the bounds, which
+ * for a straightened image is the frame's bounding box in the image's own space.
+ */
+const drawImageResampled = (ctx: RenderContext, img: SourceImage, bounds: Rect, rect: Rect, filter: ResampleFilter): void => {
+  if (filter === 'browser') {
+    ctx.drawImage(img, rect.x, rect.y, rect.width, rect.height);
+    return;
+  }
+  if (filter === 'halving') {
+    ctx.drawImage(getMipmap(img, rect.width), rect.x, rect.y, rect.width, rect.height);
+    return;
+  }
+
+  // Visible output pixels, snapped to the pixel grid
+  const left = Math.max(bounds.x, Math.round(rect.x));
+  const top = Math.max(bounds.y, Math.round(rect.y));
+  const right = Math.min(bounds.x + bounds.width, Math.round(rect.x + rect.width));
+  const bottom = Math.min(bounds.y + bounds.height, Math.round(rect.y + rect.height));
+  if (right <= left || bottom <= top) return;
+
+  // Halve down to within 2x of the output first, so the filter's cost stays bounded
+  const source = getMipmap(img, rect.width * 2);
+  const sx = source.width / rect.width;
+  const sy = source.height / rect.height;
+  const region = {
+    x: (left - rect.x) * sx,
+    y: (top - rect.y) * sy,
+    width: (right - left) * sx,
+    height: (bottom - top) * sy,
+  };
+  const resampled = resampleRegion(source, region, right - left, bottom - top, filter);
+  if (resampled) {
+    ctx.drawImage(resampled, left, top);
+  } else {
+    ctx.drawImage(source, rect.x, rect.y, rect.width, rect.height);
+  }
+};
+
+/**
+ * Draws one output frame: the background fill followed by the oriented, zoomed and panned image,
+ * then the color adjustments and finally the watermark overlay, which they leave untouched.
+ * Shared by the preview canvas and every export path so they always match.
+ * @param img The source, or a reduced working copy of it.
+ * @param detail A full-resolution part of the source to draw the image from instead, for exports of huge images.
+ */
+export const renderFrame = (ctx: RenderContext, img: SourceImage, frame: FrameSpec, detail?: SourceDetail): void => {
+  // The framing is measured in full-size source pixels, so it is scaled to the copy being drawn
+  const fit = { ...frame.fit, scale: frame.fit.scale * frame.sourceSize.width / img.width };
+  const plain = getOrientedSource(img, frame.transform);
+  const source = frame.cutout.enabled && !detail ? getOrientedSource(getCutoutSource(img, frame.cutout), frame.transform) : plain;
+  const rect = getDrawRect(source, fit, frame.zoom, frame.pan, frame.transform);
+  const angle = getStraightenAngle(frame.transform);
+  const adjust = !isNeutralAdjustment(frame.adjustments);
+  // A custom color is used exactly as picked, so it is filled in behind the adjusted pixels afterwards
+  const fillAfter = adjust && frame.background.mode === 'custom';
+  drawBackground(ctx, plain, fillAfter ? { ...frame, background: { ...frame.background, mode: 'transparent' } } : frame, rect, angle);
+  // Convolution filters resample the axis-aligned image at its final scale,
+  // and a straightened result is then drawn rotated
+  withStraighten(ctx, frame.target, rect, angle, bounds => {
+    if (!detail) {
+      drawImageResampled(ctx, source, bounds, rect, frame.resample);
+      return;
+    }
+    const image = frame.cutout.enabled ? getCutoutDetail(img, detail, frame.cutout) : detail.image;
+    const region = orientNormalizedRect(detail.region, frame.transform);
+    drawImageResampled(ctx, getOrientedSource(image, frame.transform), bounds, {
+      x: rect.x + region.x * rect.width,
+      y: rect.y + region.y * rect.height,
+      width: region.width * rect.width,
+      height: region.height * rect.height,
+    }, frame.resample);
+  });
+
+  if (adjust) applyAdjustments(ctx, frame.target, frame.adjustments);
+  if (fillAfter) {
+    ctx.save();
+    ctx.globalCompositeOperation = 'destination-over';
+    ctx.fillStyle = frame.background.color;
+    ctx.fillRect(0, 0, frame.target.width, frame.target.height);
+    ctx.restore();
+  }
+  drawOverlay(ctx, frame.target, frame.overlay);
+};
+
+/**
+ * Renders one output frame into a new canvas sized to the target, for export.
+ * @returns The canvas, or null if a 2D context is unavailable.
+ */
+export const createFrameCanvas = (img: SourceImage, frame: FrameSpec, detail?: SourceDetail): AnyCanvas | null => {
+  const canvas = createCanvas(frame.target.width, frame.target.height);
+  const ctx = get2DContext(canvas);
+  if (!ctx) return null;
+  renderFrame(ctx, img, frame, detail);
+  return canvas;
+};
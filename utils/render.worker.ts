@@ -0,0 +1,95 @@
+import type { FrameSpec } from '../types';
+import type { RenderWorkerRequest, RenderWorkerResponse } from './renderer';
+import { setLanguage } from './i18n';
+import { setOverlayImage } from './overlay';
+import { drawToCanvas, encodeFrame, readPixel, snapshotFrame } from './renderer';
+
+// The tsconfig targets the DOM, so the worker scope is described by hand
+const scope = self as unknown as {
+  onmessage: ((e: MessageEvent<RenderWorkerRequest>) => void) | null;
+  postMessage: (message: RenderWorkerResponse, transfer?: Transferable[]) => void;
+};
+
+let preview: OffscreenCanvas | null = null;
+let source: ImageBitmap | null = null;
+let pendingFrame: FrameSpec | null = null;
+let lastFrame: FrameSpec | null = null;
+
+/**
+ * Draws only the newest frame, so a burst of pan updates costs one render.
+ */
+const flush = () => {
+  const frame = pendingFrame;
+  pendingFrame = null;
+  if (!frame || !preview || !source) return;
+  drawToCanvas(preview, source, frame);
+  lastFrame = frame;
+};
+
+const scheduleFlush = () => {
+  if (pendingFrame) return;
+  setTimeout(flush, 0);
+};
+
+scope.onmessage = async (e) => {
+  const message = e.data;
+  switch (message.type) {
+    case 'attach':
+      preview = message.canvas;
+      pendingFrame ??= lastFrame;
+      setTimeout(flush, 0);
+      break;
+    case 'source':
+      source?.close();
+      source = message.source;
+      lastFrame = null;
+      break;
+    case 'overlayImage':
+      setOverlayImage(message.id, message.image);
+      // Redraw so a logo that arrives after its first render appears
+      if (!pendingFrame && lastFrame) {
+        pendingFrame = lastFrame;
+        setTimeout(flush, 0);
+      }
+      break;
+    case 'language':
+      setLanguage(message.language);
+      break;
+    case 'render':
+      scheduleFlush();
+      pendingFrame = message.frame;
+      break;
+    case 'snapshot': {
+      try {
+        if (!source) throw new Error('No source image loaded');
+        const image = await snapshotFrame(source, message.frame);
+        scope.postMessage({ type: 'snapshot', id: message.id, image }, [image]);
+      } catch (err) {
+        scope.postMessage({ type: 'error', id: message.id, message: err instanceof Error ? err.message : String(err) });
+      }
+      break;
+    }
+    case 'pick':
+      try {
+        flush();
+        if (!preview) throw new Error('No preview canvas attached');
+        scope.postMessage({ type: 'picked', id: message.id, color: readPixel(preview, message.x, message.y) });
+      } catch (err) {
+        scope.postMessage({ type: 'error', id: message.id, message: err instanceof Error ? err.message : String(err) });
+      }
+      break;
+    case 'encode': {
+      const image = message.source ?? source;
+      try {
+        if (!image) throw new Error('No source image loaded');
+        scope.postMessage({ type: 'encoded', id: message.id, result: await encodeFrame(image, message.frame, message.settings, message.detail) });
+      } catch (err) {
+        scope.postMessage({ type: 'error', id: message.id, message: err instanceof Error ? err.message : String(err) });
+      } finally {
+        message.source?.close();
+        message.detail?.image.close();
+      }
+      break;
+    }
+  }
+};
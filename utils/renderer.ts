@@ -0,0 +1,236 @@
+import type { EncodeResult, ExportSettings, FrameSpec, SourceDetail, SourceImage } from '../types';
+import { rgbToHex } from './background';
+import { get2DContext } from './canvas';
+import { encodeCanvas } from './encode';
+import { getLanguage, subscribeLanguage } from './i18n';
+import { setOverlayImage } from './overlay';
+import { createFrameCanvas, renderFrame } from './render';
+
+/**
+ * Draws the interactive preview and encodes exports for the current source image.
+ * Calls are ordered: a render or encode always sees the latest `setSource`.
+ */
+export interface FrameRenderer {
+  /** Binds the preview canvas. Safe to call repeatedly with the same element. */
+  attach: (canvas: HTMLCanvasElement) => void;
+  /** Replaces the source image, taking ownership of the bitmap. */
+  setSource: (source: ImageBitmap | null) => void;
+  /** Stores or removes a logo overlay's decoded image, taking ownership of the bitmap, and redraws the preview. */
+  setOverlayImage: (id: string, image: ImageBitmap | null) => void;
+  /** Draws a frame into the preview canvas. Rapid calls may be coalesced. */
+  render: (frame: FrameSpec) => void;
+  /** Renders a frame off-screen, e.g. for a comparison, as a bitmap owned by the caller. */
+  snapshot: (frame: FrameSpec) => Promise<ImageBitmap>;
+  /** Samples a pixel of the preview, in output coordinates, as a hex color. */
+  pickColor: (x: number, y: number) => Promise<string>;
+  /**
+   * Renders the current source at full quality and encodes it. A detail, if
+   * given, is drawn in place of a reduced source, and its bitmap is taken over.
+   */
+  encode: (frame: FrameSpec, settings: ExportSettings, detail?: SourceDetail) => Promise<EncodeResult>;
+  /** Renders and encodes a different image, taking ownership of the bitmaps. */
+  encodeImage: (source: ImageBitmap, frame: FrameSpec, settings: ExportSettings, detail?: SourceDetail) => Promise<EncodeResult>;
+  dispose: () => void;
+}
+
+export type RenderWorkerRequest =
+  | { type: 'attach'; canvas: OffscreenCanvas }
+  | { type: 'source'; source: ImageBitmap | null }
+  | { type: 'overlayImage'; id: string; image: ImageBitmap | null }
+  | { type: 'language'; language: string }
+  | { type: 'render'; frame: FrameSpec }
+  | { type: 'snapshot'; id: number; frame: FrameSpec }
+  | { type: 'pick'; id: number; x: number; y: number }
+  | { type: 'encode'; id: number; frame: FrameSpec; settings: ExportSettings; source?: ImageBitmap; detail?: SourceDetail };
+
+export type RenderWorkerResponse =
+  | { type: 'snapshot'; id: number; image: ImageBitmap }
+  | { type: 'picked'; id: number; color: string }
+  | { type: 'encoded'; id: number; result: EncodeResult }
+  | { type: 'error'; id: number; message: string };
+
+/**
+ * Renders and encodes one frame.
+ * @throws If a canvas context is unavailable or encoding fails.
+ */
+export const encodeFrame = async (source: SourceImage, frame: FrameSpec, settings: ExportSettings, detail?: SourceDetail): Promise<EncodeResult> => {
+  const canvas = createFrameCanvas(source, frame, detail);
+  if (!canvas) throw new Error('Canvas 2D context is unavailable');
+  return encodeCanvas(canvas, settings);
+};
+
+/**
+ * Renders one frame into a bitmap.
+ * @throws If a canvas context is unavailable.
+ */
+export const snapshotFrame = (source: SourceImage, frame: FrameSpec): Promise<ImageBitmap> => {
+  const canvas = createFrameCanvas(source, frame);
+  if (!canvas) throw new Error('Canvas 2D context is unavailable');
+  return createImageBitmap(canvas);
+};
+
+/**
+ * Reads one pixel of a canvas as a hex color.
+ */
+export const readPixel = (canvas: HTMLCanvasElement | OffscreenCanvas, x: number, y: number): string => {
+  const ctx = get2DContext(canvas);
+  if (!ctx) throw new Error('Canvas 2D context is unavailable');
+  const px = Math.min(canvas.width - 1, Math.max(0, Math.floor(x)));
+  const py = Math.min(canvas.height - 1, Math.max(0, Math.floor(y)));
+  const [r, g, b] = ctx.getImageData(px, py, 1, 1).data;
+  return rgbToHex(r, g, b);
+};
+
+/**
+ * Sizes a canvas to the frame and draws it. Resizing clears the canvas, so it's skipped when unchanged.
+ */
+export const drawToCanvas = (canvas: HTMLCanvasElement | OffscreenCanvas, source: SourceImage, frame: FrameSpec): void => {
+  if (canvas.width !== frame.target.width) canvas.width = frame.target.width;
+  if (canvas.height !== frame.target.height) canvas.height = frame.target.height;
+  const ctx = get2DContext(canvas);
+  if (ctx) renderFrame(ctx, source, frame);
+};
+
+/**
+ * Renders on the main thread. Used where OffscreenCanvas can't be transferred to a worker.
+ */
+const createMainThreadRenderer = (): FrameRenderer => {
+  let canvas: HTMLCanvasElement | null = null;
+  let source: ImageBitmap | null = null;
+  let lastFrame: FrameSpec | null = null;
+
+  return {
+    attach: (element) => {
+      canvas = element;
+    },
+    setSource: (next) => {
+      source?.close();
+      source = next;
+      lastFrame = null;
+    },
+    setOverlayImage: (id, image) => {
+      setOverlayImage(id, image);
+      if (canvas && source && lastFrame) drawToCanvas(canvas, source, lastFrame);
+    },
+    render: (frame) => {
+      if (!canvas || !source) return;
+      drawToCanvas(canvas, source, frame);
+      lastFrame = frame;
+    },
+    snapshot: async (frame) => {
+      if (!source) throw new Error('No source image loaded');
+      return snapshotFrame(source, frame);
+    },
+    pickColor: async (x, y) => {
+      if (!canvas) throw new Error('No preview canvas attached');
+      return readPixel(canvas, x, y);
+    },
+    encode: async (frame, settings, detail) => {
+      try {
+        if (!source) throw new Error('No source image loaded');
+        return await encodeFrame(source, frame, settings, detail);
+      } finally {
+        detail?.image.close();
+      }
+    },
+    encodeImage: async (image, frame, settings, detail) => {
+      try {
+        return await encodeFrame(image, frame, settings, detail);
+      } finally {
+        image.close();
+        detail?.image.close();
+      }
+    },
+    dispose: () => {
+      source?.close();
+      source = null;
+      canvas = null;
+    },
+  };
+};
+
+/**
+ * Renders in a Web Worker through a transferred OffscreenCanvas, so decoding
+ * derived data and drawing large images never block input handling.
+ * The worker is started lazily on first use.
+ */
+const createWorkerRenderer = (): FrameRenderer => {
+  let worker: Worker | null = null;
+  let attached: HTMLCanvasElement | null = null;
+  let nextId = 0;
+  let unsubscribeLanguage: (() => void) | null = null;
+  const pending = new Map<number, { resolve(value: unknown): void; reject(reason: Error): void }>();
+
+  const getWorker = (): Worker => {
+    if (!worker) {
+      worker = new Worker(new URL('./render.worker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (e: MessageEvent<RenderWorkerResponse>) => {
+        const message = e.data;
+        const request = pending.get(message.id);
+        if (!request) return;
+        pending.delete(message.id);
+        if (message.type === 'error') request.reject(new Error(message.message));
+        else if (message.type === 'picked') request.resolve(message.color);
+        else if (message.type === 'snapshot') request.resolve(message.image);
+        else request.resolve(message.result);
+      };
+      worker.onerror = (e) => {
+        console.error("Render worker error:", e);
+        pending.forEach(request => request.reject(new Error('Render worker failed')));
+        pending.clear();
+      };
+      // Encoding errors are worded in the worker, which can't read the chosen language itself
+      const sendLanguage = () => worker?.postMessage({ type: 'language', language: getLanguage() } satisfies RenderWorkerRequest);
+      sendLanguage();
+      unsubscribeLanguage = subscribeLanguage(sendLanguage);
+    }
+    return worker;
+  };
+
+  const call = <T>(message: RenderWorkerRequest & { id: number }, transfer: Transferable[] = []): Promise<T> =>
+    new Promise<T>((resolve, reject) => {
+      pending.set(message.id, { resolve, reject });
+      getWorker().postMessage(message, transfer);
+    });
+
+  return {
+    attach: (element) => {
+      if (element === attached) return;
+      attached = element;
+      const offscreen = element.transferControlToOffscreen();
+      getWorker().postMessage({ type: 'attach', canvas: offscreen } satisfies RenderWorkerRequest, [offscreen]);
+    },
+    setSource: (source) => {
+      getWorker().postMessage({ type: 'source', source } satisfies RenderWorkerRequest, source ? [source] : []);
+    },
+    setOverlayImage: (id, image) => {
+      getWorker().postMessage({ type: 'overlayImage', id, image } satisfies RenderWorkerRequest, image ? [image] : []);
+    },
+    render: (frame) => {
+      getWorker().postMessage({ type: 'render', frame } satisfies RenderWorkerRequest);
+    },
+    snapshot: (frame) => call<ImageBitmap>({ type: 'snapshot', id: nextId++, frame }),
+    pickColor: (x, y) => call<string>({ type: 'pick', id: nextId++, x, y }),
+    encode: (frame, settings, detail) =>
+      call<EncodeResult>({ type: 'encode', id: nextId++, frame, settings, detail }, detail ? [detail.image] : []),
+    encodeImage: (source, frame, settings, detail) =>
+      call<EncodeResult>({ type: 'encode', id: nextId++, frame, settings, source, detail }, detail ? [source, detail.image] : [source]),
+    dispose: () => {
+      worker?.terminate();
+      worker = null;
+      unsubscribeLanguage?.();
+      unsubscribeLanguage = null;
+      attached = null;
+      pending.forEach(request => request.reject(new Error('Renderer disposed')));
+      pending.clear();
+    },
+  };
+};
+
+/**
+ * Creates the best available renderer for this browser.
+ */
+export const createFrameRenderer = (): FrameRenderer =>
+  typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined' && 'transferControlToOffscreen' in HTMLCanvasElement.prototype
+    ? createWorkerRenderer()
+    : createMainThreadRenderer();
@@ -0,0 +1,53 @@
+import type { AnyCanvas, ImageDimensions, ImageTransform, QuarterTurn, SourceImage } from '../types';
+import { createCanvas, get2DContext } from './canvas';
+
+export const DEFAULT_TRANSFORM: ImageTransform = {
+  rotation: 0,
+  flipH: false,
+  flipV: false,
+  straighten: 0,
+  autoCrop: true,
+};
+
+export const MAX_STRAIGHTEN = 45;
+
+/**
+ * Whether the transform changes anything that is baked into the oriented source.
+ */
+export const hasQuarterTurnOrFlip = (transform: ImageTransform): boolean =>
+  transform.rotation !== 0 || transform.flipH || transform.flipV;
+
+/**
+ * The size of the source after its quarter-turn rotation.
+ */
+export const getOrientedSize = (source: ImageDimensions, transform: ImageTransform): ImageDimensions =>
+  transform.rotation % 180 === 0 ? source : { width: source.height, height: source.width };
+
+/**
+ * Rotates the image a quarter turn as it appears on screen.
+ * Flips are applied after rotation, so with a single flip the stored rotation
+ * has to turn the other way for the visible result to turn as requested.
+ * @param direction 1 for clockwise, -1 for counter-clockwise.
+ */
+export const rotateQuarter = (transform: ImageTransform, direction: 1 | -1): ImageTransform => {
+  const mirrored = transform.flipH !== transform.flipV;
+  const step = mirrored ? -direction : direction;
+  return { ...transform, rotation: ((transform.rotation + step * 90 + 360) % 360) as QuarterTurn };
+};
+
+/**
+ * Draws the source with its quarter-turn rotation and flips applied.
+ * @returns A new canvas of the oriented size, or null if a 2D context is unavailable.
+ */
+export const createOrientedCanvas = (img: SourceImage, transform: ImageTransform): AnyCanvas | null => {
+  const { width, height } = getOrientedSize(img, transform);
+  const canvas = createCanvas(width, height);
+  const ctx = get2DContext(canvas);
+  if (!ctx) return null;
+
+  ctx.translate(width / 2, height / 2);
+  ctx.scale(transform.flipH ? -1 : 1, transform.flipV ? -1 : 1);
+  ctx.rotate(transform.rotation * Math.PI / 180);
+  ctx.drawImage(img, -img.width / 2, -img.height / 2);
+  return canvas;
+};
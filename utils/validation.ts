@@ -0,0 +1,158 @@
+import type { FileFacts, FileReport, ImageType, OutputPreset, RuleLevel, ValidationIssue, ValidationRules } from '../types';
+import { getImageLimitError, readImageSize } from './decode';
+import { getInitialFit } from './geometry';
+import { formatDimensions } from './format';
+import { formatNumber, t } from './i18n';
+import { resolveTargetSize } from './presets';
+
+export const VALIDATION_RULES_KEY = 'lineresize.validationRules';
+
+export const IMAGE_TYPES: Record<ImageType, { label: string; extensions: string[] }> = {
+  jpeg: { label: 'JPEG', extensions: ['jpg', 'jpeg', 'jfif'] },
+  png: { label: 'PNG', extensions: ['png'] },
+  webp: { label: 'WebP', extensions: ['webp'] },
+  gif: { label: 'GIF', extensions: ['gif'] },
+  bmp: { label: 'BMP', extensions: ['bmp'] },
+  avif: { label: 'AVIF', extensions: ['avif'] },
+};
+
+export const DEFAULT_VALIDATION_RULES: ValidationRules = {
+  maxFileSizeMB: 25,
+  allowedTypes: ['jpeg', 'png', 'webp'],
+  resolutionLevel: 'warn',
+  aspectLevel: 'off',
+  minAspect: null,
+  maxAspect: null,
+};
+
+// Bytes needed to recognize every supported signature
+const SNIFF_LENGTH = 16;
+
+const matchesAscii = (bytes: Uint8Array, offset: number, ascii: string): boolean =>
+  ascii.split('').every((char, i) => bytes[offset + i] === char.charCodeAt(0));
+
+/**
+ * Identifies an image format from its magic bytes, ignoring the file name and the browser's guess.
+ * @returns The format, or null if the bytes don't start any supported image.
+ */
+export const sniffImageType = (bytes: Uint8Array): ImageType | null => {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'jpeg';
+  if (matchesAscii(bytes, 0, '\x89PNG\r\n\x1a\n')) return 'png';
+  if (matchesAscii(bytes, 0, 'RIFF') && matchesAscii(bytes, 8, 'WEBP')) return 'webp';
+  if (matchesAscii(bytes, 0, 'GIF87a') || matchesAscii(bytes, 0, 'GIF89a')) return 'gif';
+  if (matchesAscii(bytes, 0, 'BM')) return 'bmp';
+  if (matchesAscii(bytes, 4, 'ftyp') && (matchesAscii(bytes, 8, 'avif') || matchesAscii(bytes, 8, 'avis'))) return 'avif';
+  return null;
+};
+
+/**
+ * Reads a file's type and decoded size. Never throws: problems are recorded in the facts.
+ */
+export const inspectFile = async (file: File): Promise<FileFacts> => {
+  let type: ImageType | null = null;
+  try {
+    type = sniffImageType(new Uint8Array(await file.slice(0, SNIFF_LENGTH).arrayBuffer()));
+  } catch (e) {
+    console.error(`Error reading ${file.name}:`, e);
+    return { file, type: null, dimensions: null, decodeError: t('validation.readFailed') };
+  }
+  if (!type) {
+    return { file, type, dimensions: null, decodeError: null };
+  }
+
+  // Only the header is read, so huge images are measured without decoding them
+  try {
+    const dimensions = await readImageSize(file);
+    return { file, type, dimensions, decodeError: getImageLimitError(dimensions) };
+  } catch (e) {
+    console.error(`Error decoding ${file.name}:`, e);
+    return { file, type, dimensions: null, decodeError: t('validation.decodeFailed') };
+  }
+};
+
+const issueAt = (level: RuleLevel, message: string): ValidationIssue[] =>
+  level === 'off' ? [] : [{ level, message }];
+
+/**
+ * Checks what is known about a file against the rules and the current output preset.
+ */
+export const evaluateFile = (facts: FileFacts, rules: ValidationRules, preset: OutputPreset): FileReport => {
+  const { file, type, dimensions } = facts;
+  const issues: ValidationIssue[] = [];
+
+  if (rules.maxFileSizeMB !== null && file.size > rules.maxFileSizeMB * 1024 * 1024) {
+    issues.push({ level: 'fail', message: t('validation.tooBig', { size: rules.maxFileSizeMB }) });
+  }
+
+  if (!type) {
+    issues.push({ level: 'fail', message: t('validation.unknownType') });
+  } else {
+    if (!rules.allowedTypes.includes(type)) {
+      issues.push({ level: 'fail', message: t('validation.typeNotAllowed', { type: IMAGE_TYPES[type].label }) });
+    }
+    const extension = file.name.includes('.') ? file.name.split('.').pop()!.toLowerCase() : '';
+    if (extension && !IMAGE_TYPES[type].extensions.includes(extension)) {
+      issues.push({ level: 'warn', message: t('validation.extensionMismatch', { extension, type: IMAGE_TYPES[type].label }) });
+    }
+  }
+
+  if (facts.decodeError) {
+    issues.push({ level: 'fail', message: facts.decodeError });
+  }
+
+  if (dimensions) {
+    const target = resolveTargetSize(preset, dimensions);
+    if (target.error) {
+      issues.push({ level: 'fail', message: target.error });
+    } else {
+      const scale = getInitialFit(dimensions, target).scale;
+      if (scale > 1) {
+        issues.push(...issueAt(rules.resolutionLevel, t('validation.lowResolution', { size: formatDimensions(target), scale: formatNumber(scale, 1) })));
+      }
+    }
+
+    const aspect = dimensions.height / dimensions.width;
+    if ((rules.minAspect !== null && aspect < rules.minAspect) || (rules.maxAspect !== null && aspect > rules.maxAspect)) {
+      issues.push(...issueAt(rules.aspectLevel, t('validation.aspectOutOfRange', { aspect: formatNumber(aspect, 2), min: rules.minAspect ?? 0, max: rules.maxAspect ?? '∞' })));
+    }
+  }
+
+  const status = issues.some(issue => issue.level === 'fail') ? 'fail' : issues.length > 0 ? 'warn' : 'pass';
+  return { facts, status, issues };
+};
+
+const isRuleLevel = (value: unknown): value is RuleLevel =>
+  value === 'off' || value === 'warn' || value === 'fail';
+
+const isOptionalPositive = (value: unknown): value is number | null =>
+  value === null || (typeof value === 'number' && value > 0);
+
+export const loadValidationRules = (): ValidationRules => {
+  try {
+    const raw = localStorage.getItem(VALIDATION_RULES_KEY);
+    if (!raw) return DEFAULT_VALIDATION_RULES;
+    const parsed = JSON.parse(raw);
+    if (!parsed || typeof parsed !== 'object') return DEFAULT_VALIDATION_RULES;
+    return {
+      maxFileSizeMB: isOptionalPositive(parsed.maxFileSizeMB) ? parsed.maxFileSizeMB : DEFAULT_VALIDATION_RULES.maxFileSizeMB,
+      allowedTypes: Array.isArray(parsed.allowedTypes)
+        ? parsed.allowedTypes.filter((type: unknown): type is ImageType => typeof type === 'string' && type in IMAGE_TYPES)
+        : DEFAULT_VALIDATION_RULES.allowedTypes,
+      resolutionLevel: isRuleLevel(parsed.resolutionLevel) ? parsed.resolutionLevel : DEFAULT_VALIDATION_RULES.resolutionLevel,
+      aspectLevel: isRuleLevel(parsed.aspectLevel) ? parsed.aspectLevel : DEFAULT_VALIDATION_RULES.aspectLevel,
+      minAspect: isOptionalPositive(parsed.minAspect) ? parsed.minAspect : null,
+      maxAspect: isOptionalPositive(parsed.maxAspect) ? parsed.maxAspect : null,
+    };
+  } catch (e) {
+    console.error("Error reading validation rules:", e);
+    return DEFAULT_VALIDATION_RULES;
+  }
+};
+
+export const saveValidationRules = (rules: ValidationRules): void => {
+  try {
+    localStorage.setItem(VALIDATION_RULES_KEY, JSON.stringify(rules));
+  } catch (e) {
+    console.error("Error saving validation rules:", e);
+  }
+};